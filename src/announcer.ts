@@ -0,0 +1,104 @@
+import * as os from 'os';
+import * as path from 'path';
+import { isOnPath, playCommand, splitCommand } from './audioPlayer';
+
+/** Sound name that speaks a message instead of playing a file. Usable anywhere a sound name is. */
+export const ANNOUNCE_SOUND = 'announce';
+
+/** Values for the `{placeholders}` of `terminalSfx.announce.*Template`. */
+export interface AnnounceContext {
+  command: string;
+  commandLine?: string;
+  exitCode?: number;
+  terminal?: string;
+  durationMs?: number;
+}
+
+/** `terminalSfx.announce.engine` and `terminalSfx.announce.customCommand`. */
+export interface SpeechPreference {
+  engine: string; // 'auto', an engine name, or 'custom'
+  customCommand: string;
+}
+
+interface SpeechEngine {
+  name: string;
+  cmd: string;
+  platforms: NodeJS.Platform[];
+  args: (text: string, volume: number) => string[];
+}
+
+// Probe order for 'auto'
+const ENGINES: SpeechEngine[] = [
+  // espeak amplitude is 0–200 with 100 as the default
+  { name: 'espeak-ng', cmd: 'espeak-ng', platforms: ['linux', 'darwin', 'win32'], args: (t, v) => ['-a', String(v), t] },
+  { name: 'espeak', cmd: 'espeak', platforms: ['linux', 'darwin', 'win32'], args: (t, v) => ['-a', String(v), t] },
+  // spd-say volume is -100–100 with 0 as the default; --wait keeps the process alive while speaking
+  { name: 'spd-say', cmd: 'spd-say', platforms: ['linux'], args: (t, v) => ['--wait', '-i', String(v * 2 - 100), t] },
+  { name: 'say', cmd: 'say', platforms: ['darwin'], args: (t) => [t] }, // no volume option
+  {
+    name: 'sapi',
+    cmd: 'powershell',
+    platforms: ['win32'],
+    args: (t, v) => [
+      '-NoProfile',
+      '-Command',
+      'Add-Type -AssemblyName System.Speech; $s = New-Object System.Speech.Synthesis.SpeechSynthesizer; ' +
+        `$s.Volume = ${v}; $s.Speak('${t.replace(/'/g, "''")}')`,
+    ],
+  },
+];
+
+// Long command lines make for long announcements
+const MAX_COMMAND_LINE_CHARS = 80;
+
+/** Fills in a template such as "{command} failed with exit code {exitCode}". Unknown placeholders are left as-is. */
+export function renderAnnouncement(template: string, context: AnnounceContext): string {
+  const commandLine = context.commandLine ?? context.command;
+  const values: Record<string, string | undefined> = {
+    command: context.command,
+    commandLine: commandLine.length > MAX_COMMAND_LINE_CHARS
+      ? commandLine.slice(0, MAX_COMMAND_LINE_CHARS) + '…'
+      : commandLine,
+    exitCode: context.exitCode?.toString(),
+    terminal: context.terminal,
+    duration: context.durationMs !== undefined ? `${Math.round(context.durationMs / 1000)} seconds` : undefined,
+  };
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match).replace(/\s+/g, ' ').trim();
+}
+
+/** The program name of a command line, e.g. "npm" for "npm run build", as a short spoken subject. */
+export function getCommandName(commandLine: string): string {
+  const first = splitCommand(commandLine)[0] ?? '';
+  return path.basename(first) || commandLine;
+}
+
+/**
+ * Speaks `text` at `volume` (0–100). Returns an error message when no engine is available,
+ * undefined when the announcement was started (or dropped by the overlap policy).
+ */
+export function speak(text: string, volume: number, preference: SpeechPreference): string | undefined {
+  if (preference.engine === 'custom') {
+    const words = splitCommand(preference.customCommand.trim());
+    if (words.length === 0) return 'terminalSfx.announce.customCommand is empty';
+    const [cmd, ...template] = words;
+    if (!template.some((word) => word.includes('{text}'))) template.push('{text}');
+    playCommand(cmd, template.map((word) => word.replace(/\{text\}/g, text).replace(/\{volume\}/g, String(volume))));
+    return undefined;
+  }
+
+  const engine = findEngine(preference.engine);
+  if (!engine) {
+    return preference.engine === 'auto'
+      ? 'No speech engine found. Install espeak-ng, espeak or speech-dispatcher (spd-say), or set terminalSfx.announce.customCommand.'
+      : `Speech engine "${preference.engine}" is not available on this system.`;
+  }
+  playCommand(engine.cmd, engine.args(text, Math.max(0, Math.min(100, volume))));
+  return undefined;
+}
+
+function findEngine(name: string): SpeechEngine | undefined {
+  const platform = os.platform();
+  return ENGINES.find((engine) =>
+    (name === 'auto' || engine.name === name) && engine.platforms.includes(platform) && isOnPath(engine.cmd)
+  );
+}
@@ -1,76 +1,577 @@
 import { ChildProcess, execFile } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
 import * as os from 'os';
+import * as path from 'path';
+import { SoundTrim } from './generateSounds';
+import { OverlapSettings, PlaybackController, Voice } from './playbackController';
 
 const MAX_PLAYBACK_MS = 20_000;
+const MAX_VOLUME = 200;
+const SCALED_WAV_DIR = path.join(os.tmpdir(), 'terminal-sfx');
 
 export interface PlaybackOptions {
   filePath: string;
   volume: number; // 0–100
+  trim?: SoundTrim;
+  gain?: number; // loudness correction, multiplied into the volume
+  maxVolume?: number; // ceiling for the corrected volume, e.g. the quiet hours volume
 }
 
-function killAfterTimeout(proc: ChildProcess): void {
-  const timer = setTimeout(() => { if (!proc.killed) proc.kill(); }, MAX_PLAYBACK_MS);
+/** `terminalSfx.player` and `terminalSfx.customPlayerCommand`. */
+export interface PlayerPreference {
+  player: string; // 'auto', a backend name, or 'custom'
+  customCommand: string;
+}
+
+/** One line of the "Test Audio Output" report. */
+export interface BackendReport {
+  name: string;
+  status: 'chosen' | 'failed' | 'missing' | 'skipped';
+  detail?: string;
+}
+
+interface Backend {
+  name: string;
+  cmd: string;
+  args: (options: PlaybackOptions) => string[];
+  trims?: boolean; // applies SoundTrim with its own flags; other players get a rendered WAV
+  maxVolume?: number; // highest volume the player accepts; MAX_VOLUME if unset
+}
+
+// Probe order for 'auto'. args are built lazily so the rendered WAV copy is only written if it's needed.
+const LINUX_BACKENDS: Backend[] = [
+  {
+    name: 'paplay',
+    cmd: 'paplay',
+    args: ({ filePath, volume, trim }) =>
+      ['--volume', String(Math.round((volume / 100) * 65536)), getRenderedWav(filePath, 100, trim)],
+  },
+  {
+    name: 'pw-play',
+    cmd: 'pw-play',
+    args: ({ filePath, volume, trim }) => ['--volume', String(volume / 100), getRenderedWav(filePath, 100, trim)],
+  },
+  {
+    name: 'aplay',
+    cmd: 'aplay',
+    args: ({ filePath, volume, trim }) => ['-q', getRenderedWav(filePath, volume, trim)], // aplay has no volume flag
+  },
+  {
+    name: 'mpv',
+    cmd: 'mpv',
+    trims: true,
+    args: ({ filePath, volume, trim }) => ['--no-video', '--really-quiet', `--volume-max=${MAX_VOLUME}`, `--volume=${volume}`, ...mpvTrimFlags(trim), filePath],
+  },
+  {
+    name: 'ffplay',
+    cmd: 'ffplay',
+    trims: true,
+    maxVolume: 100, // -volume is 0–100
+    args: ({ filePath, volume, trim }) =>
+      ['-nodisp', '-autoexit', '-loglevel', 'error', '-volume', String(volume), ...ffplayTrimFlags(trim), filePath],
+  },
+  {
+    name: 'play', // sox
+    cmd: 'play',
+    trims: true,
+    args: ({ filePath, volume, trim }) => ['-q', '-v', String(volume / 100), filePath, ...soxTrimEffects(trim)],
+  },
+];
+
+// macOS and Windows have one built-in player each, used unless the player is 'custom'
+const MAC_BACKEND: Backend = {
+  name: 'afplay',
+  cmd: 'afplay',
+  // afplay -v takes a float: 0.0 = silent, 1.0 = normal, 2.0 = double
+  args: ({ filePath, volume, trim }) => [
+    '-v', String(Math.max(0, volume) / 50),
+    ...(trim?.maxDuration ? ['-t', String(trim.maxDuration)] : []),
+    getRenderedWav(filePath, 100, trim),
+  ],
+};
+
+const WINDOWS_BACKEND: Backend = {
+  name: 'powershell',
+  cmd: 'powershell',
+  args: ({ filePath, volume, trim }) => {
+    if (!isWav(filePath)) return ['-NoProfile', '-Command', `Start-Process wmplayer -ArgumentList '"${filePath}"' -Wait`];
+    // SoundPlayer has no volume control, so it plays a pre-scaled copy
+    const wavPath = getRenderedWav(filePath, volume, trim);
+    return ['-NoProfile', '-Command', `(New-Object System.Media.SoundPlayer '${wavPath.replace(/'/g, "''")}').PlaySync()`];
+  },
+};
+
+let preference: PlayerPreference = { player: 'auto', customCommand: '' };
+let log: (message: string) => void = () => {};
+let workingBackend: Backend | undefined; // remembered after the first successful playback
+const pathLookups = new Map<string, boolean>();
+const controller = new PlaybackController();
+
+/** Applies the player settings; forgets the remembered backend when they change. */
+export function configurePlayer(next: PlayerPreference, logger?: (message: string) => void): void {
+  if (logger) log = logger;
+  if (next.player !== preference.player || next.customCommand !== preference.customCommand) {
+    workingBackend = undefined;
+  }
+  preference = next;
+}
+
+/** Applies `terminalSfx.overlap.*` to sounds started from now on. */
+export function configureOverlap(settings: OverlapSettings): void {
+  controller.configure(settings);
+}
+
+/** Silences everything that is playing or queued. Returns how many sounds were stopped. */
+export function stopAllSounds(): number {
+  return controller.stopAll();
+}
+
+/** Registers the process with its voice (if any) and kills it after `limitMs`. */
+function track(proc: ChildProcess, voice?: Voice, limitMs = MAX_PLAYBACK_MS): ChildProcess {
+  voice?.attach(proc);
+  const timer = setTimeout(() => { if (!proc.killed) proc.kill(); }, limitMs);
   proc.on('exit', () => clearTimeout(timer));
+  return proc;
 }
 
-export function playSound(options: PlaybackOptions): void {
-  const { filePath, volume } = options;
+/** Plays a sound, subject to the overlap policy. Returns false if the policy dropped it. */
+export function playSound(playback: PlaybackOptions): boolean {
+  // Backends see the corrected volume, which can exceed 100 for quiet clips unless capped
+  const corrected = playback.volume * (playback.gain ?? 1);
+  const options = { ...playback, volume: Math.round(Math.min(MAX_VOLUME, playback.maxVolume ?? MAX_VOLUME, corrected)) };
   const platform = os.platform();
 
-  if (platform === 'darwin') {
-    // afplay -v takes a float: 0.0 = silent, 1.0 = normal, 2.0 = double
-    const vol = String(Math.max(0, volume) / 50);
-    killAfterTimeout(execFile('afplay', ['-v', vol, filePath], logError));
-  } else if (platform === 'linux') {
-    tryLinuxPlayers(filePath, volume);
-  } else if (platform === 'win32') {
-    playWindows(filePath);
+  return controller.play((voice) => {
+    const builtIn = getPlatformBackend();
+    if (preference.player === 'custom' || platform === 'linux') {
+      playWithBackends(options, voice);
+    } else if (builtIn) {
+      runBackend(builtIn, options, (failure) => finishVoice(voice, failure), voice);
+    } else {
+      voice.finish();
+    }
+  });
+}
+
+/**
+ * Runs any other sound-making command (e.g. a speech engine) as a voice, so it follows
+ * the overlap policy, the playback timeout and Stop All Sounds. Returns false if dropped.
+ */
+export function playCommand(cmd: string, args: string[]): boolean {
+  return controller.play((voice) => {
+    track(execFile(cmd, args, (err) => finishVoice(voice, err?.message)), voice);
+  });
+}
+
+/**
+ * Backends to try, in order. A fixed choice yields just that backend; 'auto' yields
+ * the remembered backend first, then every other one found on PATH.
+ */
+function getCandidates(): Backend[] {
+  if (preference.player === 'custom') {
+    const custom = getCustomBackend();
+    return custom ? [custom] : [];
   }
+  const fixed = LINUX_BACKENDS.find((b) => b.name === preference.player);
+  if (fixed) return [fixed];
+
+  const available = LINUX_BACKENDS.filter((b) => isOnPath(b.cmd));
+  if (!workingBackend) return available;
+  return [workingBackend, ...available.filter((b) => b !== workingBackend)];
 }
 
-function tryLinuxPlayers(filePath: string, volume: number): void {
-  const players = [
-    {
-      cmd: 'paplay',
-      args: ['--volume', String(Math.round((volume / 100) * 65536)), filePath],
-    },
-    {
-      cmd: 'aplay',
-      args: [filePath],
-    },
-    {
-      cmd: 'mpv',
-      args: ['--no-video', `--volume=${volume}`, filePath],
-    },
-  ];
+function playWithBackends(options: PlaybackOptions, voice: Voice): void {
+  const candidates = getCandidates();
+  if (candidates.length === 0) {
+    log('No audio player found. Run "Terminal Sound Effects: Test Audio Output" for details.');
+    voice.finish();
+    return;
+  }
 
   function tryNext(index: number): void {
-    if (index >= players.length) return;
-    const player = players[index];
-    const proc = execFile(player.cmd, player.args, (err) => {
-      if (err) tryNext(index + 1);
-    });
-    killAfterTimeout(proc);
+    if (index >= candidates.length) {
+      workingBackend = undefined;
+      log('Every audio player failed. Run "Terminal Sound Effects: Test Audio Output" for details.');
+      voice.finish();
+      return;
+    }
+    const backend = candidates[index];
+    runBackend(backend, options, (failure) => {
+      // A stopped voice says nothing about whether the player works
+      if (voice.isStopped) return;
+      if (failure) {
+        if (backend === workingBackend) log(`Audio player ${backend.name} stopped working: ${failure}`);
+        tryNext(index + 1);
+        return;
+      }
+      if (backend !== workingBackend) {
+        workingBackend = backend;
+        log(`Using audio player: ${backend.name}`);
+      }
+      voice.finish();
+    }, voice);
   }
 
   tryNext(0);
 }
 
-function playWindows(filePath: string): void {
-  if (filePath.endsWith('.wav')) {
-    const script = `(New-Object System.Media.SoundPlayer '${filePath.replace(/'/g, "''")}').PlaySync()`;
-    killAfterTimeout(execFile('powershell', ['-NoProfile', '-Command', script], logError));
+/** Runs one backend; `done` receives a failure reason, or undefined if it played. */
+function runBackend(backend: Backend, options: PlaybackOptions, done: (failure?: string) => void, voice?: Voice): void {
+  let args: string[];
+  try {
+    args = backend.args({ ...options, volume: Math.min(options.volume, backend.maxVolume ?? MAX_VOLUME) });
+  } catch (err: any) {
+    done(err.message);
+    return;
+  }
+  const proc: ChildProcess = execFile(backend.cmd, args, (err, _stdout, stderr) => {
+    // Being cut off by the playback timeout still means the player works
+    if (!err || proc.killed) {
+      done();
+    } else {
+      const reason = String(stderr).trim().split('\n')[0];
+      done(reason || err.message);
+    }
+  });
+  track(proc, voice, getPlaybackLimit(backend, options));
+}
+
+/** Players that can't trim and got a compressed file (no rendered WAV) are cut off at maxDuration instead. */
+function getPlaybackLimit(backend: Backend, options: PlaybackOptions): number {
+  const maxDuration = options.trim?.maxDuration;
+  if (!maxDuration || backend.trims || isWav(options.filePath)) return MAX_PLAYBACK_MS;
+  return Math.min(MAX_PLAYBACK_MS, maxDuration * 1000);
+}
+
+/**
+ * Plays `filePath` through every candidate backend in turn, stopping at the first one
+ * that works, and reports why each of the others was skipped or failed.
+ */
+export async function testAudioOutput(filePath: string, volume: number): Promise<BackendReport[]> {
+  const reports: BackendReport[] = [];
+  let backends: Backend[];
+
+  if (preference.player === 'custom') {
+    const custom = getCustomBackend();
+    if (!custom) return [{ name: 'custom', status: 'failed', detail: 'terminalSfx.customPlayerCommand is empty' }];
+    backends = [custom];
+  } else if (os.platform() !== 'linux') {
+    const builtIn = getPlatformBackend();
+    if (!builtIn) return [{ name: os.platform(), status: 'missing', detail: 'no built-in player for this platform' }];
+    backends = [builtIn];
   } else {
-    killAfterTimeout(execFile(
-      'powershell',
-      ['-NoProfile', '-Command', `Start-Process wmplayer -ArgumentList '"${filePath}"' -Wait`],
-      logError
-    ));
+    const fixed = LINUX_BACKENDS.find((b) => b.name === preference.player);
+    backends = fixed ? [fixed] : LINUX_BACKENDS;
+  }
+
+  pathLookups.clear(); // re-probe, in case a player was installed since activation
+  workingBackend = undefined;
+
+  for (const backend of backends) {
+    if (workingBackend) {
+      reports.push({ name: backend.name, status: 'skipped', detail: `${workingBackend.name} already works` });
+    } else if (!isOnPath(backend.cmd)) {
+      reports.push({ name: backend.name, status: 'missing', detail: `"${backend.cmd}" not found on PATH` });
+    } else {
+      const failure = await new Promise<string | undefined>((resolve) => runBackend(backend, { filePath, volume }, resolve));
+      if (failure) {
+        reports.push({ name: backend.name, status: 'failed', detail: failure });
+      } else {
+        workingBackend = backend;
+        reports.push({ name: backend.name, status: 'chosen' });
+      }
+    }
+  }
+  return reports;
+}
+
+/** The built-in player on macOS and Windows; undefined elsewhere. */
+function getPlatformBackend(): Backend | undefined {
+  const platform = os.platform();
+  return platform === 'darwin' ? MAC_BACKEND : platform === 'win32' ? WINDOWS_BACKEND : undefined;
+}
+
+/** Parses `terminalSfx.customPlayerCommand`, e.g. `mycmd --vol {volume} {file}`. */
+function getCustomBackend(): Backend | undefined {
+  const words = splitCommand(preference.customCommand.trim());
+  if (words.length === 0) return undefined;
+  const [cmd, ...template] = words;
+  if (!template.some((word) => word.includes('{file}'))) template.push('{file}');
+  return {
+    name: 'custom',
+    cmd,
+    maxVolume: 100, // {volume} is documented as 0–100
+    args: ({ filePath, volume, trim }) => {
+      const file = getRenderedWav(filePath, 100, trim);
+      return template.map((word) => word.replace(/\{file\}/g, file).replace(/\{volume\}/g, String(volume)));
+    },
+  };
+}
+
+/** Splits a command line on whitespace, honoring single and double quotes. No shell is involved. */
+export function splitCommand(command: string): string[] {
+  const words: string[] = [];
+  const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(command))) {
+    words.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return words;
+}
+
+export function isOnPath(cmd: string): boolean {
+  if (path.isAbsolute(cmd)) return fs.existsSync(cmd);
+  let found = pathLookups.get(cmd);
+  if (found === undefined) {
+    const extensions = os.platform() === 'win32' ? ['', ...(process.env.PATHEXT ?? '.EXE').split(';')] : [''];
+    found = (process.env.PATH ?? '').split(path.delimiter).some((dir) =>
+      dir && extensions.some((ext) => {
+        try {
+          fs.accessSync(path.join(dir, cmd + ext), fs.constants.X_OK);
+          return true;
+        } catch {
+          return false;
+        }
+      })
+    );
+    pathLookups.set(cmd, found);
+  }
+  return found;
+}
+
+// --- Trimming ------------------------------------------------------------------
+// Players with seek/length options trim natively. A fade-out needs to know where the
+// clip ends, so these players only fade when maxDuration is set.
+
+function isWav(filePath: string): boolean {
+  return path.extname(filePath).toLowerCase() === '.wav';
+}
+
+function hasTrim(trim: SoundTrim | undefined): trim is SoundTrim {
+  return !!trim && !!(trim.start || trim.maxDuration || trim.fadeOut);
+}
+
+function mpvTrimFlags(trim: SoundTrim | undefined): string[] {
+  if (!hasTrim(trim)) return [];
+  const start = trim.start ?? 0;
+  const flags = start ? [`--start=${start}`] : [];
+  if (trim.maxDuration) {
+    flags.push(`--length=${trim.maxDuration}`);
+    // mpv keeps the file's timestamps after seeking, so the fade starts at an absolute position
+    if (trim.fadeOut) flags.push(`--af=lavfi=[afade=t=out:st=${start + Math.max(0, trim.maxDuration - trim.fadeOut)}:d=${trim.fadeOut}]`);
+  }
+  return flags;
+}
+
+function ffplayTrimFlags(trim: SoundTrim | undefined): string[] {
+  if (!hasTrim(trim)) return [];
+  const filters = [`atrim=start=${trim.start ?? 0}${trim.maxDuration ? `:duration=${trim.maxDuration}` : ''}`, 'asetpts=PTS-STARTPTS'];
+  if (trim.maxDuration && trim.fadeOut) {
+    filters.push(`afade=t=out:st=${Math.max(0, trim.maxDuration - trim.fadeOut)}:d=${trim.fadeOut}`);
+  }
+  return ['-af', filters.join(',')];
+}
+
+function soxTrimEffects(trim: SoundTrim | undefined): string[] {
+  if (!hasTrim(trim)) return [];
+  const effects = ['trim', String(trim.start ?? 0), ...(trim.maxDuration ? [String(trim.maxDuration)] : [])];
+  if (trim.maxDuration && trim.fadeOut) effects.push('fade', 't', '0', String(trim.maxDuration), String(trim.fadeOut));
+  return effects;
+}
+
+// --- WAV rendering --------------------------------------------------------------
+// For players without volume or trim flags: decode the PCM samples, cut and scale them,
+// and write a temporary copy. Only uncompressed WAV is handled; anything else plays as-is.
+
+export interface WavFile {
+  buffer: Buffer;
+  formatTag: number; // 1 = integer PCM, 3 = IEEE float
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  dataOffset: number;
+  dataLength: number;
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+// Both caches are small LRUs; an edited file drops its old entries as soon as it's seen again
+const MAX_DECODED_WAVS = 8;
+const MAX_RENDERED_WAVS = 64;
+const decodedWavs = new Map<string, { mtime: number; wav: WavFile }>(); // key: path
+const renderedWavs = new Map<string, string>(); // key: path + mtime + volume + trim → temp file
+
+/** Stores `value` as the most recently used entry, evicting the least recently used beyond `limit`. */
+function remember<V>(cache: Map<string, V>, key: string, value: V, limit: number): void {
+  cache.delete(key); // Maps iterate in insertion order, so re-inserting marks the key as newest
+  cache.set(key, value);
+  for (const oldest of cache.keys()) {
+    if (cache.size <= limit) break;
+    cache.delete(oldest);
+  }
+}
+
+export function readWav(buffer: Buffer): WavFile | undefined {
+  if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    return undefined;
+  }
+
+  let formatTag: number | undefined;
+  let channels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let offset = 12;
+
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString('ascii', offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (id === 'fmt ' && body + 16 <= buffer.length) {
+      formatTag = buffer.readUInt16LE(body);
+      channels = buffer.readUInt16LE(body + 2);
+      sampleRate = buffer.readUInt32LE(body + 4);
+      bitsPerSample = buffer.readUInt16LE(body + 14);
+      if (formatTag === WAVE_FORMAT_EXTENSIBLE && size >= 26 && body + 26 <= buffer.length) {
+        // The real format is the first two bytes of the SubFormat GUID
+        formatTag = buffer.readUInt16LE(body + 24);
+      }
+    } else if (id === 'data' && formatTag !== undefined) {
+      const dataLength = Math.min(size, buffer.length - body);
+      return { buffer, formatTag, channels, sampleRate, bitsPerSample, dataOffset: body, dataLength };
+    }
+
+    offset = body + size + (size % 2); // chunks are word-aligned
+  }
+  return undefined;
+}
+
+/**
+ * Returns a copy of the WAV file cut to `trim`, with every sample multiplied by `gain`
+ * and the fade-out ramp applied, or undefined for unsupported formats. Chunks after
+ * the sample data (e.g. LIST metadata) are dropped.
+ */
+export function renderWav(wav: WavFile, gain: number, trim: SoundTrim = {}): Buffer | undefined {
+  const { formatTag, channels, sampleRate, bitsPerSample, dataOffset, dataLength } = wav;
+  const bytes = bitsPerSample / 8;
+  const isFloat = formatTag === WAVE_FORMAT_IEEE_FLOAT && bitsPerSample === 32;
+  if (formatTag !== WAVE_FORMAT_PCM && !isFloat) return undefined;
+  if (![8, 16, 24, 32].includes(bitsPerSample) || channels < 1 || sampleRate < 1) return undefined;
+
+  const frameBytes = bytes * channels;
+  const totalFrames = Math.floor(dataLength / frameBytes);
+  const startFrame = Math.min(totalFrames, Math.round(Math.max(0, trim.start ?? 0) * sampleRate));
+  const endFrame = trim.maxDuration
+    ? Math.min(totalFrames, startFrame + Math.round(trim.maxDuration * sampleRate))
+    : totalFrames;
+  const frames = endFrame - startFrame;
+  const fadeFrames = Math.min(frames, Math.round(Math.max(0, trim.fadeOut ?? 0) * sampleRate));
+
+  // Keep the header up to the data chunk and patch the two sizes that change
+  const out = Buffer.alloc(dataOffset + frames * frameBytes);
+  wav.buffer.copy(out, 0, 0, dataOffset);
+  wav.buffer.copy(out, dataOffset, dataOffset + startFrame * frameBytes, dataOffset + endFrame * frameBytes);
+  out.writeUInt32LE(frames * frameBytes, dataOffset - 4);
+  out.writeUInt32LE(out.length - 8, 4);
+
+  if (gain === 1 && fadeFrames === 0) return out;
+
+  const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, Math.round(value)));
+
+  for (let frame = 0; frame < frames; frame++) {
+    const remaining = frames - frame;
+    const g = remaining < fadeFrames ? gain * (remaining / fadeFrames) : gain;
+    const frameStart = dataOffset + frame * frameBytes;
+
+    for (let i = frameStart; i < frameStart + frameBytes; i += bytes) {
+      if (isFloat) {
+        out.writeFloatLE(Math.max(-1, Math.min(1, out.readFloatLE(i) * g)), i);
+      } else if (bitsPerSample === 8) {
+        // 8-bit PCM is unsigned with silence at 128
+        out.writeUInt8(clamp((out.readUInt8(i) - 128) * g + 128, 0, 255), i);
+      } else if (bitsPerSample === 16) {
+        out.writeInt16LE(clamp(out.readInt16LE(i) * g, -32768, 32767), i);
+      } else if (bitsPerSample === 24) {
+        out.writeIntLE(clamp(out.readIntLE(i, 3) * g, -8388608, 8388607), i, 3);
+      } else {
+        out.writeInt32LE(clamp(out.readInt32LE(i) * g, -2147483648, 2147483647), i);
+      }
+    }
+  }
+  return out;
+}
+
+/** Decodes every sample (all channels interleaved) to -1..1, or undefined for unsupported formats. */
+export function readSamples(wav: WavFile): Float32Array | undefined {
+  const { formatTag, bitsPerSample, dataOffset, dataLength, buffer } = wav;
+  const bytes = bitsPerSample / 8;
+  const isFloat = formatTag === WAVE_FORMAT_IEEE_FLOAT && bitsPerSample === 32;
+  if (formatTag !== WAVE_FORMAT_PCM && !isFloat) return undefined;
+  if (![8, 16, 24, 32].includes(bitsPerSample)) return undefined;
+
+  const samples = new Float32Array(Math.floor(dataLength / bytes));
+  for (let n = 0, i = dataOffset; n < samples.length; n++, i += bytes) {
+    if (isFloat) samples[n] = buffer.readFloatLE(i);
+    else if (bitsPerSample === 8) samples[n] = (buffer.readUInt8(i) - 128) / 128;
+    else if (bitsPerSample === 16) samples[n] = buffer.readInt16LE(i) / 32768;
+    else if (bitsPerSample === 24) samples[n] = buffer.readIntLE(i, 3) / 8388608;
+    else samples[n] = buffer.readInt32LE(i) / 2147483648;
+  }
+  return samples;
+}
+
+/**
+ * Path to a copy of `filePath` trimmed and scaled to `volume` (0–100), or `filePath` itself
+ * when nothing needs to change or the file isn't a PCM WAV. Results are cached per file/volume/trim.
+ */
+function getRenderedWav(filePath: string, volume: number, trim?: SoundTrim): string {
+  if ((volume >= 100 && !hasTrim(trim)) || !isWav(filePath)) return filePath;
+
+  try {
+    const mtime = fs.statSync(filePath).mtimeMs;
+    const fileKey = `${filePath}:${mtime}`;
+    const trimKey = hasTrim(trim) ? `${trim.start ?? 0}-${trim.maxDuration ?? 0}-${trim.fadeOut ?? 0}` : '';
+    const renderedKey = `${fileKey}:${volume}:${trimKey}`;
+
+    const cached = renderedWavs.get(renderedKey);
+    if (cached && fs.existsSync(cached)) {
+      remember(renderedWavs, renderedKey, cached, MAX_RENDERED_WAVS);
+      return cached;
+    }
+
+    const decoded = decodedWavs.get(filePath);
+    let wav = decoded?.mtime === mtime ? decoded.wav : undefined;
+    if (!wav) {
+      // Renders of an older version of the file will never be asked for again
+      for (const key of [...renderedWavs.keys()]) {
+        if (key.startsWith(`${filePath}:`) && !key.startsWith(`${fileKey}:`)) renderedWavs.delete(key);
+      }
+      wav = readWav(fs.readFileSync(filePath));
+      if (!wav) return filePath;
+    }
+    remember(decodedWavs, filePath, { mtime, wav }, MAX_DECODED_WAVS);
+
+    const rendered = renderWav(wav, Math.max(0, volume) / 100, trim);
+    if (!rendered) return filePath;
+
+    const hash = crypto.createHash('sha1').update(fileKey).digest('hex').slice(0, 12);
+    const outPath = path.join(SCALED_WAV_DIR, `${hash}-${volume}${trimKey ? `-${trimKey}` : ''}.wav`);
+    fs.mkdirSync(SCALED_WAV_DIR, { recursive: true });
+    fs.writeFileSync(outPath, rendered);
+    remember(renderedWavs, renderedKey, outPath, MAX_RENDERED_WAVS);
+    return outPath;
+  } catch (err: any) {
+    log(`Could not render ${path.basename(filePath)}: ${err.message}`);
+    return filePath;
   }
 }
 
-function logError(err: Error | null): void {
-  if (err) {
-    console.error('[Terminal Sound Effects] Playback error:', err.message);
+function finishVoice(voice: Voice, failure: string | undefined): void {
+  if (failure && !voice.isStopped) {
+    log(`Playback error: ${failure}`);
   }
+  voice.finish();
 }
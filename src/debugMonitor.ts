@@ -0,0 +1,69 @@
+import * as vscode from 'vscode';
+
+export type DebugEventKind = 'terminated' | 'exception' | 'breakpoint';
+
+export interface DebugEvent {
+  kind: DebugEventKind;
+  sessionName: string;
+  detail?: string;
+  exitCode?: number; // of the debuggee, for abnormal exits that report one
+}
+
+export type DebugEventCallback = (event: DebugEvent) => void;
+
+const BREAKPOINT_REASONS = ['breakpoint', 'function breakpoint', 'data breakpoint', 'instruction breakpoint'];
+
+// Watches the Debug Adapter Protocol traffic of every session for `stopped` and `exited`
+// events. Abnormal exits are remembered and reported once the session has terminated.
+export class DebugMonitor implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+  private abnormalExits = new Map<string, { reason: string; exitCode?: number }>(); // by session id
+
+  constructor(onEvent: DebugEventCallback) {
+    this.disposables.push(
+      vscode.debug.registerDebugAdapterTrackerFactory('*', {
+        createDebugAdapterTracker: (session) => this.createTracker(session, onEvent),
+      }),
+      vscode.debug.onDidTerminateDebugSession((session) => {
+        const exit = this.abnormalExits.get(session.id);
+        if (exit === undefined) return;
+        this.abnormalExits.delete(session.id);
+        onEvent({ kind: 'terminated', sessionName: session.name, detail: exit.reason, exitCode: exit.exitCode });
+      })
+    );
+  }
+
+  private createTracker(session: vscode.DebugSession, onEvent: DebugEventCallback): vscode.DebugAdapterTracker {
+    return {
+      onDidSendMessage: (message) => {
+        if (message?.type !== 'event') return;
+
+        if (message.event === 'stopped') {
+          const reason = message.body?.reason;
+          if (reason === 'exception') {
+            onEvent({ kind: 'exception', sessionName: session.name, detail: message.body?.text ?? message.body?.description });
+          } else if (BREAKPOINT_REASONS.includes(reason)) {
+            onEvent({ kind: 'breakpoint', sessionName: session.name });
+          }
+        } else if (message.event === 'exited') {
+          const exitCode = message.body?.exitCode;
+          if (typeof exitCode === 'number' && exitCode !== 0) {
+            this.abnormalExits.set(session.id, { reason: `exit code ${exitCode}`, exitCode });
+          }
+        }
+      },
+      onExit: (code, signal) => {
+        // The debug adapter itself crashed or was killed
+        if (signal) {
+          this.abnormalExits.set(session.id, { reason: `debug adapter killed by ${signal}` });
+        } else if (code) {
+          this.abnormalExits.set(session.id, { reason: `debug adapter exited with code ${code}` });
+        }
+      },
+    };
+  }
+
+  dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+  }
+}
@@ -0,0 +1,75 @@
+import * as vscode from 'vscode';
+
+export type DiagnosticsChangeKind = 'regression' | 'clean';
+
+export interface DiagnosticsChange {
+  kind: DiagnosticsChangeKind;
+  previousErrors: number;
+  errors: number;
+}
+
+export type DiagnosticsChangeCallback = (change: DiagnosticsChange) => void;
+
+// Tracks Error-severity diagnostics per file. Language servers often clear and republish
+// diagnostics several times per save, so totals are only compared once they've settled.
+export class DiagnosticsMonitor implements vscode.Disposable {
+  private disposable: vscode.Disposable;
+  private errorCounts = new Map<string, number>();
+  private settledTotal: number;
+  private settleTimer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(private readonly onChange: DiagnosticsChangeCallback) {
+    for (const [uri, diagnostics] of vscode.languages.getDiagnostics()) {
+      this.updateCount(uri, diagnostics);
+    }
+    this.settledTotal = this.getTotal();
+
+    this.disposable = vscode.languages.onDidChangeDiagnostics((event) => {
+      for (const uri of event.uris) {
+        this.updateCount(uri, vscode.languages.getDiagnostics(uri));
+      }
+      this.scheduleSettle();
+    });
+  }
+
+  private updateCount(uri: vscode.Uri, diagnostics: readonly vscode.Diagnostic[]): void {
+    const errors = diagnostics.filter((d) => d.severity === vscode.DiagnosticSeverity.Error).length;
+    if (errors > 0) {
+      this.errorCounts.set(uri.toString(), errors);
+    } else {
+      this.errorCounts.delete(uri.toString());
+    }
+  }
+
+  private getTotal(): number {
+    let total = 0;
+    for (const count of this.errorCounts.values()) total += count;
+    return total;
+  }
+
+  private scheduleSettle(): void {
+    if (this.settleTimer) clearTimeout(this.settleTimer);
+    const delay = vscode.workspace.getConfiguration('terminalSfx').get<number>('diagnostics.settleMs', 1500);
+    this.settleTimer = setTimeout(() => this.settle(), delay);
+  }
+
+  private settle(): void {
+    this.settleTimer = undefined;
+    const previousErrors = this.settledTotal;
+    const errors = this.getTotal();
+    this.settledTotal = errors;
+
+    if (!vscode.workspace.getConfiguration('terminalSfx').get<boolean>('diagnostics.enabled', false)) return;
+
+    if (errors > previousErrors) {
+      this.onChange({ kind: 'regression', previousErrors, errors });
+    } else if (errors === 0 && previousErrors > 0) {
+      this.onChange({ kind: 'clean', previousErrors, errors });
+    }
+  }
+
+  dispose(): void {
+    if (this.settleTimer) clearTimeout(this.settleTimer);
+    this.disposable.dispose();
+  }
+}
@@ -1,19 +1,45 @@
 import * as vscode from 'vscode';
 import { TerminalMonitor } from './terminalMonitor';
+import { TaskMonitor } from './taskMonitor';
+import { DebugMonitor } from './debugMonitor';
+import { DiagnosticsMonitor } from './diagnosticsMonitor';
+import { NotebookMonitor } from './notebookMonitor';
+import { ShellIntegrationWatcher, explainShellIntegration } from './shellIntegrationWatcher';
 import { SfxManager } from './sfxManager';
 import { SfxLibraryPanel } from './sfxLibrary';
 import { SfxSidebarProvider } from './sfxSidebarProvider';
+import { SfxStatsPanel } from './sfxStats';
 
 export async function activate(context: vscode.ExtensionContext) {
   const sfxManager = new SfxManager(context);
   await sfxManager.initialize();
 
-  const monitor = new TerminalMonitor(() => sfxManager.handleError());
+  const monitor = new TerminalMonitor(
+    (result) => sfxManager.handleOutcome(result),
+    (message) => sfxManager.log(message)
+  );
+  const taskMonitor = new TaskMonitor((result) => sfxManager.handleTaskResult(result));
+  const debugMonitor = new DebugMonitor((event) => sfxManager.handleDebugEvent(event));
+  const diagnosticsMonitor = new DiagnosticsMonitor((change) => sfxManager.handleDiagnosticsChange(change));
+  const notebookMonitor = new NotebookMonitor((result) => sfxManager.handleNotebookResult(result));
+  const shellIntegration = new ShellIntegrationWatcher((message) => sfxManager.log(message));
 
   const openLibraryCmd = vscode.commands.registerCommand('terminal-sfx.openLibrary', () => {
     SfxLibraryPanel.createOrShow(sfxManager);
   });
 
+  const openStatisticsCmd = vscode.commands.registerCommand('terminal-sfx.openStatistics', () => {
+    SfxStatsPanel.createOrShow(sfxManager.getHistory());
+  });
+
+  const clearHistoryCmd = vscode.commands.registerCommand('terminal-sfx.clearHistory', () => {
+    return sfxManager.getHistory().promptClear();
+  });
+
+  const exportHistoryCmd = vscode.commands.registerCommand('terminal-sfx.exportHistory', () => {
+    return sfxManager.getHistory().promptExport();
+  });
+
   const selectFileCmd = vscode.commands.registerCommand('terminal-sfx.selectFile', () => {
     sfxManager.selectFileFromSystem();
   });
@@ -22,8 +48,72 @@ export async function activate(context: vscode.ExtensionContext) {
     sfxManager.toggle();
   });
 
+  const snoozeCmd = vscode.commands.registerCommand('terminal-sfx.snooze', () => {
+    return sfxManager.pickSnooze();
+  });
+
+  const statusBarMenuCmd = vscode.commands.registerCommand('terminal-sfx.statusBarMenu', async () => {
+    const items: Array<vscode.QuickPickItem & { command: string }> = [
+      { label: sfxManager.isEnabled() ? '$(mute) Disable' : '$(unmute) Enable', command: 'terminal-sfx.toggle' },
+      sfxManager.isSnoozed()
+        ? { label: '$(play) Resume now', command: 'terminal-sfx.resume' }
+        : { label: '$(clock) Snooze...', command: 'terminal-sfx.snooze' },
+      { label: '$(library) Open Sound Library', command: 'terminal-sfx.openLibrary' },
+      { label: '$(graph) Open Statistics', command: 'terminal-sfx.openStatistics' },
+    ];
+    const choice = await vscode.window.showQuickPick(items, { placeHolder: 'Terminal Sound Effects' });
+    if (choice) await vscode.commands.executeCommand(choice.command);
+  });
+
+  const testAudioCmd = vscode.commands.registerCommand('terminal-sfx.testAudio', () => {
+    return sfxManager.testAudioOutput();
+  });
+
+  const stopAllCmd = vscode.commands.registerCommand('terminal-sfx.stopAll', () => {
+    sfxManager.stopAll();
+  });
+
+  const manageSoundsCmd = vscode.commands.registerCommand('terminal-sfx.manageSounds', () => {
+    return sfxManager.manageUserSounds();
+  });
+
+  const installPackCmd = vscode.commands.registerCommand('terminal-sfx.installPack', () => {
+    return sfxManager.installSoundPack();
+  });
+
+  const listPacksCmd = vscode.commands.registerCommand('terminal-sfx.listPacks', () => {
+    return sfxManager.listSoundPacks();
+  });
+
+  const togglePackCmd = vscode.commands.registerCommand('terminal-sfx.togglePack', () => {
+    return sfxManager.toggleSoundPack();
+  });
+
+  const uninstallPackCmd = vscode.commands.registerCommand('terminal-sfx.uninstallPack', () => {
+    return sfxManager.uninstallSoundPack();
+  });
+
+  const resumeCmd = vscode.commands.registerCommand('terminal-sfx.resume', () => {
+    return sfxManager.resume();
+  });
+
+  const muteTerminalCmd = vscode.commands.registerCommand('terminal-sfx.muteTerminal', () => {
+    const terminal = vscode.window.activeTerminal;
+    if (!terminal) {
+      vscode.window.showWarningMessage('No active terminal to mute.');
+      return;
+    }
+    const muted = monitor.toggleMute(terminal);
+    vscode.window.showInformationMessage(`Terminal "${terminal.name}" ${muted ? 'muted' : 'unmuted'} for this session.`);
+  });
+
+  const explainShellIntegrationCmd = vscode.commands.registerCommand('terminal-sfx.explainShellIntegration', () => {
+    const terminal = shellIntegration.getMissingTerminals()[0] ?? vscode.window.activeTerminal;
+    return explainShellIntegration(terminal, (message) => sfxManager.log(message));
+  });
+
   // Sidebar webview
-  const sidebarProvider = new SfxSidebarProvider(sfxManager);
+  const sidebarProvider = new SfxSidebarProvider(sfxManager, shellIntegration);
   const sidebarRegistration = vscode.window.registerWebviewViewProvider(
     SfxSidebarProvider.viewType,
     sidebarProvider
@@ -31,27 +121,84 @@ export async function activate(context: vscode.ExtensionContext) {
 
   // Status bar toggle
   const statusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
-  statusBar.command = 'terminal-sfx.toggle';
-  updateStatusBar(statusBar, sfxManager.isEnabled());
+  statusBar.command = 'terminal-sfx.statusBarMenu';
+  const refreshStatusBar = () =>
+    updateStatusBar(statusBar, sfxManager, shellIntegration.getMissingTerminals());
+  refreshStatusBar();
   statusBar.show();
 
+  // Quiet hours and the snooze countdown change with the clock, not on a config change
+  const clockTimer = setInterval(refreshStatusBar, 30_000);
+  const clockTimerDisposable = new vscode.Disposable(() => clearInterval(clockTimer));
+
+  const shellIntegrationListener = shellIntegration.onDidChange(() => {
+    refreshStatusBar();
+    sidebarProvider.refresh();
+  });
+
+  const stateListener = sfxManager.onDidChangeState(() => {
+    refreshStatusBar();
+    sidebarProvider.refresh();
+  });
+
+  const packsListener = sfxManager.getSoundPacks().onDidChange(() => {
+    sidebarProvider.refresh();
+    SfxLibraryPanel.refreshIfOpen();
+  });
+
+  const userSoundsListener = sfxManager.getUserSounds().onDidChange(() => {
+    sidebarProvider.refresh();
+    SfxLibraryPanel.refreshIfOpen();
+  });
+
   // React to config changes — keep all UIs in sync
   const configWatcher = vscode.workspace.onDidChangeConfiguration((e) => {
     if (e.affectsConfiguration('terminalSfx')) {
-      updateStatusBar(statusBar, sfxManager.isEnabled());
+      refreshStatusBar();
       sidebarProvider.refresh();
       SfxLibraryPanel.refreshIfOpen();
     }
   });
 
-  context.subscriptions.push(sfxManager, monitor, openLibraryCmd, selectFileCmd, toggleCmd, statusBar, configWatcher, sidebarRegistration);
+  context.subscriptions.push(
+    sfxManager, monitor, taskMonitor, debugMonitor, diagnosticsMonitor, notebookMonitor, shellIntegration,
+    openLibraryCmd, openStatisticsCmd, clearHistoryCmd, exportHistoryCmd, selectFileCmd, toggleCmd, snoozeCmd, resumeCmd, stopAllCmd, testAudioCmd, statusBarMenuCmd,
+    manageSoundsCmd, installPackCmd, listPacksCmd, togglePackCmd, uninstallPackCmd, muteTerminalCmd, explainShellIntegrationCmd,
+    statusBar, clockTimerDisposable, shellIntegrationListener, stateListener, packsListener, userSoundsListener, configWatcher, sidebarRegistration
+  );
 }
 
-function updateStatusBar(item: vscode.StatusBarItem, enabled: boolean): void {
+function updateStatusBar(item: vscode.StatusBarItem, sfxManager: SfxManager, missingIntegration: vscode.Terminal[]): void {
+  const enabled = sfxManager.isEnabled();
   item.text = enabled ? '$(unmute) SFX' : '$(mute) SFX';
   item.tooltip = enabled
-    ? 'Terminal Sound Effects: Enabled (click to disable)'
-    : 'Terminal Sound Effects: Disabled (click to enable)';
+    ? 'Terminal Sound Effects: Enabled (click for options)'
+    : 'Terminal Sound Effects: Disabled (click for options)';
+
+  const snoozeUntil = sfxManager.getSnoozeUntil();
+  if (enabled && snoozeUntil !== undefined) {
+    item.text = '$(clock) SFX';
+    item.tooltip += snoozeUntil === 'session'
+      ? '\nSnoozed until VS Code restarts.'
+      : `\nSnoozed — resumes in ${formatCountdown(snoozeUntil - Date.now())}.`;
+  } else if (enabled && sfxManager.isQuietTime()) {
+    const muted = sfxManager.getQuietHoursMode() === 'mute';
+    item.text = '$(bell-slash) SFX';
+    item.tooltip += `\nQuiet hours are active: sounds are ${muted ? 'muted' : 'played at reduced volume'}.`;
+  }
+
+  if (enabled && missingIntegration.length > 0) {
+    const names = missingIntegration.map((t) => `"${t.name}"`).join(', ');
+    item.text = '$(warning) SFX';
+    item.tooltip += `\nShell integration is inactive in ${names}, so failed commands there are silent. ` +
+      'Run "Terminal Sound Effects: Fix Shell Integration" for help.';
+  }
+}
+
+function formatCountdown(ms: number): string {
+  const minutes = Math.max(1, Math.ceil(ms / 60_000));
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
 }
 
 export function deactivate() {}
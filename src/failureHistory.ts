@@ -0,0 +1,121 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { JsonFile } from './jsonFile';
+
+export interface FailureRecord {
+  timestamp: number;
+  commandLine: string;
+  exitCode?: number; // debugger exceptions and notebook cells have none
+  cwd?: string;
+  terminalName: string;
+  sound: string;
+}
+
+const CSV_COLUMNS: Array<keyof FailureRecord> = ['timestamp', 'commandLine', 'exitCode', 'cwd', 'terminalName', 'sound'];
+
+/** Drops records an older version or a hand edit left malformed; export and the stats panel rely on these types. */
+function isFailureRecord(value: unknown): value is FailureRecord {
+  if (!value || typeof value !== 'object') return false;
+  const record = value as Record<string, unknown>;
+  return (
+    typeof record.timestamp === 'number' &&
+    Number.isFinite(record.timestamp) &&
+    !Number.isNaN(new Date(record.timestamp).getTime()) &&
+    typeof record.commandLine === 'string' &&
+    (record.exitCode === undefined || typeof record.exitCode === 'number') &&
+    (record.cwd === undefined || typeof record.cwd === 'string') &&
+    typeof record.terminalName === 'string' &&
+    typeof record.sound === 'string'
+  );
+}
+
+/** Capped log of failures that played a sound, persisted as JSON under globalStorageUri. */
+export class FailureHistory implements vscode.Disposable {
+  private readonly file: JsonFile;
+  private records: FailureRecord[] = [];
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor(storageDir: string, log: (message: string) => void) {
+    this.file = new JsonFile(path.join(storageDir, 'history.json'), (message) => log(`Failed to save failure history: ${message}`));
+  }
+
+  async load(): Promise<void> {
+    const data = await this.file.read();
+    if (Array.isArray(data)) this.records = data.filter(isFailureRecord);
+  }
+
+  getRecords(): readonly FailureRecord[] {
+    return this.records;
+  }
+
+  record(entry: FailureRecord): void {
+    const config = vscode.workspace.getConfiguration('terminalSfx');
+    if (!config.get<boolean>('history.enabled', true)) return;
+
+    const maxEntries = Math.max(1, config.get<number>('history.maxEntries', 1000));
+    this.records.push(entry);
+    if (this.records.length > maxEntries) {
+      this.records.splice(0, this.records.length - maxEntries);
+    }
+    this.save();
+  }
+
+  async clear(): Promise<void> {
+    this.records = [];
+    await this.save();
+  }
+
+  async promptClear(): Promise<void> {
+    const choice = await vscode.window.showWarningMessage(
+      `Delete all ${this.records.length} recorded failures?`,
+      { modal: true },
+      'Clear History'
+    );
+    if (choice === 'Clear History') {
+      await this.clear();
+      vscode.window.showInformationMessage('Failure history cleared.');
+    }
+  }
+
+  async promptExport(): Promise<void> {
+    const format = await vscode.window.showQuickPick(['CSV', 'JSON'], { placeHolder: 'Export failure history as...' });
+    if (!format) return;
+
+    const extension = format === 'CSV' ? 'csv' : 'json';
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(path.join(os.homedir(), `terminal-sfx-history.${extension}`)),
+      filters: { [format]: [extension] },
+      title: 'Export failure history',
+    });
+    if (!uri) return;
+
+    const content = format === 'CSV' ? this.toCsv() : JSON.stringify(this.records, null, 2);
+    await fs.promises.writeFile(uri.fsPath, content, 'utf-8');
+    vscode.window.showInformationMessage(`Exported ${this.records.length} failures to ${path.basename(uri.fsPath)}.`);
+  }
+
+  toCsv(): string {
+    const escape = (value: unknown) => {
+      const text = value === undefined ? '' : String(value);
+      return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    const rows = this.records.map((record) =>
+      CSV_COLUMNS.map((column) =>
+        escape(column === 'timestamp' ? new Date(record.timestamp).toISOString() : record[column])
+      ).join(',')
+    );
+    return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+  }
+
+  private save(): Promise<void> {
+    this.changeEmitter.fire();
+    return this.file.write(this.records);
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
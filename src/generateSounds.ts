@@ -1,14 +1,21 @@
 // Auto-discovers built-in sounds from MP3/WAV files in media/sounds/.
 // Just drop audio files in that folder — no registry to maintain.
-// Optional: create media/sounds/config.json to set emojis and custom labels.
+// Optional: create media/sounds/config.json to set emojis, custom labels and default trims.
 
 import * as fs from 'fs';
 import * as path from 'path';
 
 const AUDIO_EXTENSIONS = ['.mp3', '.wav', '.ogg'];
 
-interface SoundConfig {
-  [name: string]: { emoji?: string; label?: string };
+/** Which part of a clip to play, in seconds. Omitted fields mean "from the start", "to the end", "no fade". */
+export interface SoundTrim {
+  start?: number;
+  maxDuration?: number;
+  fadeOut?: number;
+}
+
+export interface SoundConfig {
+  [name: string]: { emoji?: string; label?: string; trim?: SoundTrim };
 }
 
 export interface SoundEntry {
@@ -16,6 +23,7 @@ export interface SoundEntry {
   label: string;
   file: string;
   emoji: string;
+  trim?: SoundTrim;
 }
 
 let cachedSounds: SoundEntry[] | null = null;
@@ -34,15 +42,14 @@ function loadConfig(soundsDir: string): SoundConfig {
 function scanSoundsDir(soundsDir: string): SoundEntry[] {
   if (cachedDir === soundsDir && cachedSounds) return cachedSounds;
 
-  if (!fs.existsSync(soundsDir)) {
-    cachedSounds = [];
-    cachedDir = soundsDir;
-    return cachedSounds;
-  }
+  cachedSounds = fs.existsSync(soundsDir) ? scanSoundFolder(soundsDir, loadConfig(soundsDir)) : [];
+  cachedDir = soundsDir;
+  return cachedSounds;
+}
 
-  const config = loadConfig(soundsDir);
-  const files = fs.readdirSync(soundsDir);
-  cachedSounds = files
+/** Lists the audio files in a folder, with emojis, labels and trims from `config`. Not cached. */
+export function scanSoundFolder(soundsDir: string, config: SoundConfig): SoundEntry[] {
+  return fs.readdirSync(soundsDir)
     .filter((f) => AUDIO_EXTENSIONS.includes(path.extname(f).toLowerCase()))
     .map((f) => {
       const name = path.basename(f, path.extname(f));
@@ -51,12 +58,9 @@ function scanSoundsDir(soundsDir: string): SoundEntry[] {
         .replace(/[-_]/g, ' ')
         .replace(/\b\w/g, (c) => c.toUpperCase());
       const emoji = entry?.emoji ?? '\u{1F3B5}';
-      return { name, label, file: f, emoji };
+      return { name, label, file: f, emoji, trim: entry?.trim };
     })
     .sort((a, b) => a.label.localeCompare(b.label));
-
-  cachedDir = soundsDir;
-  return cachedSounds;
 }
 
 export function refreshCache(): void {
@@ -83,3 +87,7 @@ export function getBuiltInSoundLabel(soundsDir: string, name: string): string {
 export function getBuiltInSoundFile(soundsDir: string, name: string): string | undefined {
   return scanSoundsDir(soundsDir).find((s) => s.name === name)?.file;
 }
+
+export function getBuiltInSoundTrim(soundsDir: string, name: string): SoundTrim | undefined {
+  return scanSoundsDir(soundsDir).find((s) => s.name === name)?.trim;
+}
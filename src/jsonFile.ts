@@ -0,0 +1,34 @@
+import * as path from 'path';
+import * as fs from 'fs';
+
+/**
+ * A JSON file under globalStorageUri that a store loads once and rewrites on every change.
+ * Writes are chained so a slow write can't land after a newer one.
+ */
+export class JsonFile {
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(
+    readonly filePath: string,
+    private readonly onError: (message: string) => void
+  ) {}
+
+  /** The parsed contents, or undefined if the file doesn't exist yet or is malformed. */
+  async read(): Promise<unknown> {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.filePath, 'utf-8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /** Serializes `data` now and writes it after any write still in progress. Never rejects. */
+  write(data: unknown, space?: number): Promise<void> {
+    const snapshot = JSON.stringify(data, null, space);
+    this.saving = this.saving
+      .then(() => fs.promises.mkdir(path.dirname(this.filePath), { recursive: true }))
+      .then(() => fs.promises.writeFile(this.filePath, snapshot, 'utf-8'))
+      .catch((err) => this.onError(err.message));
+    return this.saving;
+  }
+}
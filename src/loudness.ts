@@ -0,0 +1,176 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { execFile } from 'child_process';
+import { isOnPath, readSamples, readWav } from './audioPlayer';
+import { JsonFile } from './jsonFile';
+
+export interface LoudnessInfo {
+  mtime: number; // the analysis is redone when the file changes
+  peak: number; // 0–1
+  rms: number; // 0–1, over the non-silent parts of the clip
+  gain: number; // multiplier that brings the clip to TARGET_RMS
+}
+
+// -16 dBFS, a typical level for short sound effects
+const TARGET_RMS = 0.16;
+const MIN_GAIN = 0.25;
+const MAX_GAIN = 2;
+const WINDOW_SECONDS = 0.05;
+// Windows quieter than -60 dBFS are silence and don't count towards the RMS
+const SILENCE_RMS = 0.001;
+const DECODE_RATE = 22050;
+const DECODE_TIMEOUT_MS = 15_000;
+
+function isLoudnessInfo(value: unknown): value is LoudnessInfo {
+  if (!value || typeof value !== 'object') return false;
+  const info = value as Record<string, unknown>;
+  return [info.mtime, info.peak, info.rms, info.gain].every((n) => typeof n === 'number' && Number.isFinite(n));
+}
+
+/**
+ * Measures peak/RMS loudness per sound file and keeps the resulting gain factors,
+ * persisted as JSON under globalStorageUri. WAV files are decoded in-process;
+ * other formats need ffmpeg on PATH and are left alone without it.
+ */
+export class LoudnessAnalyzer implements vscode.Disposable {
+  private readonly file: JsonFile;
+  private results: Record<string, LoudnessInfo> = {};
+  private pending = new Map<string, Promise<LoudnessInfo | undefined>>();
+  private warnedNoDecoder = false;
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor(storageDir: string, private readonly log: (message: string) => void) {
+    this.file = new JsonFile(path.join(storageDir, 'loudness.json'), (message) => log(`Failed to save loudness analysis: ${message}`));
+  }
+
+  async load(): Promise<void> {
+    const data = await this.file.read();
+    if (!data || typeof data !== 'object' || Array.isArray(data)) return;
+    // A malformed entry would turn into a NaN or infinite volume, so it is dropped and re-analyzed
+    this.results = Object.fromEntries(Object.entries(data).filter(([, info]) => isLoudnessInfo(info)));
+  }
+
+  /** The stored analysis for a file, if it is still up to date. */
+  getInfo(filePath: string): LoudnessInfo | undefined {
+    const info = this.results[filePath];
+    if (!info) return undefined;
+    try {
+      return fs.statSync(filePath).mtimeMs === info.mtime ? info : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /** Analyzes the file unless an up-to-date result exists. Concurrent calls share one analysis. */
+  analyze(filePath: string): Promise<LoudnessInfo | undefined> {
+    const existing = this.getInfo(filePath);
+    if (existing) return Promise.resolve(existing);
+
+    let pending = this.pending.get(filePath);
+    if (!pending) {
+      pending = this.measure(filePath).finally(() => this.pending.delete(filePath));
+      this.pending.set(filePath, pending);
+    }
+    return pending;
+  }
+
+  /** Analyzes files one at a time, so a large library doesn't spawn a decoder per file at once. */
+  async analyzeAll(filePaths: string[]): Promise<void> {
+    for (const filePath of filePaths) await this.analyze(filePath);
+  }
+
+  private async measure(filePath: string): Promise<LoudnessInfo | undefined> {
+    try {
+      const mtime = (await fs.promises.stat(filePath)).mtimeMs;
+      const decoded = await this.decode(filePath);
+      if (!decoded) return undefined;
+
+      const info = { mtime, ...measureSamples(decoded.samples, decoded.sampleRate) };
+      this.results[filePath] = info;
+      this.log(
+        `Loudness of ${path.basename(filePath)}: peak ${toDb(info.peak)} dBFS, RMS ${toDb(info.rms)} dBFS → gain ×${info.gain.toFixed(2)}`
+      );
+      this.save();
+      return info;
+    } catch (err: any) {
+      this.log(`Could not analyze loudness of ${path.basename(filePath)}: ${err.message}`);
+      return undefined;
+    }
+  }
+
+  /** Decodes to samples; `sampleRate` counts interleaved channels as extra samples per second. */
+  private async decode(filePath: string): Promise<{ samples: Float32Array; sampleRate: number } | undefined> {
+    if (path.extname(filePath).toLowerCase() === '.wav') {
+      const wav = readWav(await fs.promises.readFile(filePath));
+      const samples = wav && readSamples(wav);
+      if (wav && samples) return { samples, sampleRate: wav.sampleRate * wav.channels };
+    }
+
+    if (!isOnPath('ffmpeg')) {
+      if (!this.warnedNoDecoder) {
+        this.warnedNoDecoder = true;
+        this.log('Loudness normalization needs ffmpeg on PATH for MP3/OGG files; those play without it.');
+      }
+      return undefined;
+    }
+
+    const output = await new Promise<Buffer>((resolve, reject) => {
+      execFile(
+        'ffmpeg',
+        ['-v', 'error', '-i', filePath, '-f', 's16le', '-ac', '1', '-ar', String(DECODE_RATE), '-'],
+        { encoding: 'buffer', maxBuffer: 64 * 1024 * 1024, timeout: DECODE_TIMEOUT_MS },
+        (err, stdout) => (err ? reject(err) : resolve(stdout))
+      );
+    });
+    const samples = new Float32Array(Math.floor(output.length / 2));
+    for (let i = 0; i < samples.length; i++) samples[i] = output.readInt16LE(i * 2) / 32768;
+    return { samples, sampleRate: DECODE_RATE };
+  }
+
+  private save(): Promise<void> {
+    this.changeEmitter.fire();
+    return this.file.write(this.results);
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
+
+/**
+ * Peak and gated RMS of a clip. The RMS only counts windows louder than SILENCE_RMS,
+ * so leading/trailing silence doesn't make a clip look quieter than it sounds.
+ * Interleaved channels are treated as one stream, which is close enough for a gain estimate.
+ */
+export function measureSamples(samples: Float32Array, sampleRate: number): Omit<LoudnessInfo, 'mtime'> {
+  const windowSize = Math.max(1, Math.round(sampleRate * WINDOW_SECONDS));
+  let peak = 0;
+  let loudSum = 0;
+  let loudCount = 0;
+
+  for (let start = 0; start < samples.length; start += windowSize) {
+    const end = Math.min(samples.length, start + windowSize);
+    let sum = 0;
+    for (let i = start; i < end; i++) {
+      const value = samples[i];
+      sum += value * value;
+      peak = Math.max(peak, Math.abs(value));
+    }
+    if (Math.sqrt(sum / (end - start)) >= SILENCE_RMS) {
+      loudSum += sum;
+      loudCount += end - start;
+    }
+  }
+
+  const rms = loudCount > 0 ? Math.sqrt(loudSum / loudCount) : 0;
+  if (rms === 0) return { peak, rms, gain: 1 };
+  // Never boost a clip past the point where it would clip
+  const gain = Math.max(MIN_GAIN, Math.min(MAX_GAIN, TARGET_RMS / rms, peak > 0 ? 1 / peak : MAX_GAIN));
+  return { peak, rms, gain };
+}
+
+function toDb(value: number): string {
+  return value > 0 ? (20 * Math.log10(value)).toFixed(1) : '-∞';
+}
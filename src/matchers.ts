@@ -0,0 +1,49 @@
+// Small parsing/matching helpers shared by the settings that map events to sounds.
+
+/**
+ * Parses an exit code spec such as "127", "1-2" or "1-2,127" into inclusive ranges.
+ * Malformed parts are skipped.
+ */
+export function parseExitCodeSpec(spec: string): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  for (const part of spec.split(',')) {
+    const match = /^\s*(\d+)\s*(?:-\s*(\d+)\s*)?$/.exec(part);
+    if (!match) continue;
+    const low = Number(match[1]);
+    const high = match[2] !== undefined ? Number(match[2]) : low;
+    ranges.push(low <= high ? [low, high] : [high, low]);
+  }
+  return ranges;
+}
+
+/**
+ * Returns the width of the narrowest range in `spec` containing `code`,
+ * or undefined if it doesn't match. 0 means an exact code match.
+ */
+export function exitCodeMatchWidth(spec: string, code: number): number | undefined {
+  let best: number | undefined;
+  for (const [low, high] of parseExitCodeSpec(spec)) {
+    if (code < low || code > high) continue;
+    const width = high - low;
+    if (best === undefined || width < best) best = width;
+  }
+  return best;
+}
+
+export function matchesExitCode(spec: string, code: number): boolean {
+  return exitCodeMatchWidth(spec, code) !== undefined;
+}
+
+/** Converts a glob (`*` = any run of characters, `?` = one character) into an anchored RegExp. */
+export function globToRegExp(glob: string, flags = ''): RegExp {
+  const source = glob
+    .split('')
+    .map((c) => (c === '*' ? '.*' : c === '?' ? '.' : c.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, flags);
+}
+
+/** Removes ANSI escape sequences (colors, cursor moves, OSC titles) from terminal output. */
+export function stripAnsi(text: string): string {
+  return text.replace(/\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b\[[0-9;?]*[ -/]*[@-~]|\x1b[@-_]/g, '');
+}
@@ -0,0 +1,52 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CommandOutcome } from './terminalMonitor';
+
+export interface NotebookCellResult {
+  outcome: CommandOutcome;
+  notebook: string;
+  cellIndex: number;
+  durationMs?: number; // undefined when the kernel reports no timing
+}
+
+export type NotebookCellCallback = (result: NotebookCellResult) => void;
+
+export class NotebookMonitor implements vscode.Disposable {
+  private disposable: vscode.Disposable;
+  // The same summary can be re-sent with other cell changes (outputs, metadata), so
+  // remember which execution was already reported for each cell
+  private reported = new WeakMap<vscode.NotebookCell, string>();
+  private untimedExecutions = 0;
+
+  constructor(onResult: NotebookCellCallback) {
+    this.disposable = vscode.workspace.onDidChangeNotebookDocument((event) => {
+      const config = vscode.workspace.getConfiguration('terminalSfx');
+      if (!config.get<boolean>('notebook.enabled', true)) return;
+
+      for (const change of event.cellChanges) {
+        const summary = change.executionSummary;
+        // success is undefined while the cell is still running
+        if (summary?.success === undefined) continue;
+        if (summary.success && !config.get<boolean>('notebook.successEnabled', false)) continue;
+
+        // Kernels that report neither give no way to tell executions apart, so each summary counts as new
+        const key = summary.executionOrder === undefined && summary.timing === undefined
+          ? `untimed:${++this.untimedExecutions}`
+          : `${summary.executionOrder}:${summary.timing?.endTime}`;
+        if (this.reported.get(change.cell) === key) continue;
+        this.reported.set(change.cell, key);
+
+        onResult({
+          outcome: summary.success ? 'success' : 'failure',
+          notebook: path.basename(event.notebook.uri.path),
+          cellIndex: change.cell.index,
+          durationMs: summary.timing && summary.timing.endTime - summary.timing.startTime,
+        });
+      }
+    });
+  }
+
+  dispose(): void {
+    this.disposable.dispose();
+  }
+}
@@ -0,0 +1,102 @@
+import { ChildProcess } from 'child_process';
+
+export type OverlapPolicy = 'interrupt' | 'queue' | 'drop' | 'overlap';
+
+/** `terminalSfx.overlap.policy` and `terminalSfx.overlap.maxVoices`. */
+export interface OverlapSettings {
+  policy: OverlapPolicy;
+  maxVoices: number;
+}
+
+// Sounds waiting under the 'queue' policy; anything beyond this is dropped
+const MAX_QUEUED = 8;
+
+/**
+ * One playSound call. A voice may run several processes in turn while it falls back
+ * between players, so it ends when the player code calls `finish()`, not on process exit.
+ */
+export class Voice {
+  private proc: ChildProcess | undefined;
+  private ended = false;
+  private stopped = false;
+
+  constructor(private readonly onEnd: (voice: Voice) => void) {}
+
+  /** True once `stop()` was called; the player code should not fall back to another player. */
+  get isStopped(): boolean {
+    return this.stopped;
+  }
+
+  attach(proc: ChildProcess): void {
+    this.proc = proc;
+    if (this.stopped) proc.kill();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.proc && this.proc.exitCode === null && !this.proc.killed) this.proc.kill();
+    this.finish();
+  }
+
+  finish(): void {
+    if (this.ended) return;
+    this.ended = true;
+    this.onEnd(this);
+  }
+}
+
+/** Tracks the voices that are playing and applies the overlap policy to new ones. */
+export class PlaybackController {
+  private active: Voice[] = [];
+  private queue: Array<(voice: Voice) => void> = [];
+  private settings: OverlapSettings = { policy: 'interrupt', maxVoices: 3 };
+
+  configure(settings: OverlapSettings): void {
+    this.settings = { ...settings, maxVoices: Math.max(1, Math.floor(settings.maxVoices)) };
+  }
+
+  /** Starts a voice now, later, or never, depending on the policy. Returns false if it was dropped. */
+  play(start: (voice: Voice) => void): boolean {
+    const busy = this.active.length > 0;
+    switch (this.settings.policy) {
+      case 'drop':
+        if (busy) return false;
+        break;
+      case 'queue':
+        if (busy) {
+          if (this.queue.length >= MAX_QUEUED) return false;
+          this.queue.push(start);
+          return true;
+        }
+        break;
+      case 'overlap':
+        // Steal the oldest voices to stay within the limit
+        while (this.active.length >= this.settings.maxVoices) this.active[0].stop();
+        break;
+      default:
+        this.stopAll();
+    }
+    this.start(start);
+    return true;
+  }
+
+  /** Stops every playing voice and clears the queue. Returns how many voices were stopped. */
+  stopAll(): number {
+    this.queue = [];
+    const voices = [...this.active];
+    voices.forEach((voice) => voice.stop());
+    return voices.length;
+  }
+
+  private start(start: (voice: Voice) => void): void {
+    const voice = new Voice((ended) => this.onVoiceEnd(ended));
+    this.active.push(voice);
+    start(voice);
+  }
+
+  private onVoiceEnd(voice: Voice): void {
+    this.active = this.active.filter((v) => v !== voice);
+    const next = this.active.length === 0 ? this.queue.shift() : undefined;
+    if (next) this.start(next);
+  }
+}
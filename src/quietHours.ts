@@ -0,0 +1,44 @@
+// Quiet hours: day-of-week + time-of-day windows in which sounds are muted or lowered.
+
+/** One entry of `terminalSfx.quietHours.schedule`. */
+export interface QuietPeriod {
+  days?: string[]; // "mon".."sun"; omitted = every day
+  start: string; // "HH:MM", local time
+  end: string; // "HH:MM"; earlier than start = runs past midnight
+}
+
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+function parseTime(value: string): number | undefined {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value?.trim() ?? '');
+  if (!match) return undefined;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 24 || minutes > 59) return undefined;
+  return hours * 60 + minutes;
+}
+
+function includesDay(period: QuietPeriod, day: number): boolean {
+  if (!period.days || period.days.length === 0) return true;
+  return period.days.some((d) => d.trim().toLowerCase().slice(0, 3) === DAY_NAMES[day]);
+}
+
+export function isQuietPeriodActive(period: QuietPeriod, now: Date): boolean {
+  const start = parseTime(period.start);
+  const end = parseTime(period.end);
+  if (start === undefined || end === undefined || start === end) return false;
+
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  const today = now.getDay();
+
+  if (start < end) {
+    return includesDay(period, today) && minutes >= start && minutes < end;
+  }
+  // Overnight window: the part after midnight belongs to the previous day's entry
+  const yesterday = (today + 6) % 7;
+  return (includesDay(period, today) && minutes >= start) || (includesDay(period, yesterday) && minutes < end);
+}
+
+export function isQuietTime(schedule: QuietPeriod[], now = new Date()): boolean {
+  return schedule.some((period) => period && isQuietPeriodActive(period, now));
+}
@@ -1,8 +1,12 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { SfxManager } from './sfxManager';
-import { getBuiltInSounds, getBuiltInSoundLabel, getBuiltInSoundFile } from './generateSounds';
+import { SfxManager, SOUND_SLOTS, SoundSlot, isSoundSlot } from './sfxManager';
+import { SoundTrim, getBuiltInSounds, getBuiltInSoundFile } from './generateSounds';
 import { playSound } from './audioPlayer';
+import { ANNOUNCE_SOUND } from './announcer';
+import { BUILT_IN_SYNTHS, SYNTH_PREFIX, SynthPreset, WAVEFORMS, isSynthSound, parseSynthPreset } from './synth';
+import { MANIFEST_FILE, isPackSound, packSoundName } from './soundPacks';
+import { isUserSound, userSoundName } from './userSounds';
 
 export class SfxLibraryPanel {
   public static currentPanel: SfxLibraryPanel | undefined;
@@ -10,6 +14,7 @@ export class SfxLibraryPanel {
 
   private readonly panel: vscode.WebviewPanel;
   private readonly sfxManager: SfxManager;
+  private activeSlot: SoundSlot = 'failure';
   private disposables: vscode.Disposable[] = [];
 
   public static refreshIfOpen(): void {
@@ -47,26 +52,45 @@ export class SfxLibraryPanel {
       async (message) => {
         switch (message.command) {
           case 'preview': {
+            if (message.soundName === ANNOUNCE_SOUND) {
+              this.sfxManager.previewAnnouncement();
+              break;
+            }
             const soundPath = this.resolveSoundPath(message.soundName);
             if (soundPath) {
               const volume = this.sfxManager.getConfig().get<number>('volume', 80);
-              playSound({ filePath: soundPath, volume });
+              playSound({
+                filePath: soundPath,
+                volume,
+                trim: this.sfxManager.getSoundTrim(message.soundName),
+                gain: this.sfxManager.getSoundGain(soundPath),
+              });
             }
             break;
           }
+          case 'setSlot':
+            if (isSoundSlot(message.slot)) {
+              this.activeSlot = message.slot;
+              this.updateContent();
+            }
+            break;
           case 'select':
-            await this.sfxManager.selectSound(message.soundName);
+            await this.sfxManager.selectSound(message.soundName, this.activeSlot);
+            this.updateContent();
+            vscode.window.showInformationMessage(`${SOUND_SLOTS[this.activeSlot].label} sound set to: ${this.sfxManager.getSoundLabel(message.soundName)}`);
+            break;
+          case 'clear':
+            await this.sfxManager.selectSound('', this.activeSlot);
             this.updateContent();
-            vscode.window.showInformationMessage(`Sound set to: ${getBuiltInSoundLabel(this.sfxManager.getBuiltInDir(), message.soundName)}`);
             break;
           case 'selectFile':
-            await this.sfxManager.selectFileFromSystem();
+            await this.sfxManager.selectFileFromSystem(this.activeSlot);
             this.updateContent();
             break;
           case 'downloadUrl':
             try {
-              const filePath = await this.sfxManager.downloadFromUrl(message.url);
-              await this.sfxManager.selectSound(filePath);
+              const soundName = await this.sfxManager.downloadFromUrl(message.url);
+              await this.sfxManager.selectSound(soundName, this.activeSlot);
               this.updateContent();
               vscode.window.showInformationMessage('Sound downloaded and selected!');
             } catch (err: any) {
@@ -77,6 +101,62 @@ export class SfxLibraryPanel {
             await this.sfxManager.toggle();
             this.updateContent();
             break;
+          case 'renameUserSound':
+            await this.sfxManager.renameUserSound(message.soundName);
+            break;
+          case 'deleteUserSound':
+            await this.sfxManager.deleteUserSound(message.soundName);
+            break;
+          case 'installPack':
+            await vscode.commands.executeCommand('terminal-sfx.installPack');
+            break;
+          case 'managePacks':
+            await vscode.commands.executeCommand('terminal-sfx.listPacks');
+            break;
+          case 'editAnnouncement':
+            await vscode.commands.executeCommand('workbench.action.openSettings', 'terminalSfx.announce');
+            break;
+          case 'previewSynth': {
+            const preset = parseSynthPreset(message.preset);
+            if (typeof preset === 'string') {
+              vscode.window.showErrorMessage(preset);
+            } else {
+              this.sfxManager.previewSynthPreset(preset);
+            }
+            break;
+          }
+          case 'saveSynth': {
+            const preset = parseSynthPreset(message.preset);
+            if (typeof preset === 'string') {
+              vscode.window.showErrorMessage(preset);
+              break;
+            }
+            const soundName = await this.sfxManager.saveSynthPreset(preset);
+            this.updateContent();
+            vscode.window.showInformationMessage(`Saved tone: ${this.sfxManager.getSoundLabel(soundName)}`);
+            break;
+          }
+          case 'deleteSynth':
+            await this.sfxManager.deleteSynthPreset(message.soundName);
+            this.updateContent();
+            break;
+          case 'setTrim':
+            await this.sfxManager.setSoundTrim(message.soundName, parseTrim(message.trim));
+            this.updateContent();
+            break;
+          case 'setGain': {
+            const gain = parseFloat(message.gain);
+            await this.sfxManager.setGainOverride(
+              message.soundName,
+              Number.isFinite(gain) && gain > 0 ? Math.min(4, gain) : undefined
+            );
+            this.updateContent();
+            break;
+          }
+          case 'resetTrim':
+            await this.sfxManager.resetSoundTrim(message.soundName);
+            this.updateContent();
+            break;
         }
       },
       null,
@@ -88,49 +168,253 @@ export class SfxLibraryPanel {
 
   private resolveSoundPath(name: string): string | undefined {
     if (path.isAbsolute(name)) return name;
+    if (isSynthSound(name) || isPackSound(name) || isUserSound(name)) return this.sfxManager.resolveSound(name);
     const file = getBuiltInSoundFile(this.sfxManager.getBuiltInDir(), name);
     if (file) return path.join(this.sfxManager.getBuiltInDir(), file);
     return undefined;
   }
 
-  private updateContent(): void {
-    this.panel.webview.html = this.getHtmlContent();
+  private renderTrimEditor(nameOrPath: string): string {
+    const trim = this.sfxManager.getSoundTrim(nameOrPath) ?? {};
+    const active = !!(trim.start || trim.maxDuration || trim.fadeOut);
+    const field = (key: keyof SoundTrim, label: string, placeholder: string) => `
+        <label>${label}
+          <input type="number" min="0" step="0.1" data-key="${key}" placeholder="${placeholder}" value="${trim[key] ?? ''}">
+        </label>`;
+    return `
+      <details class="trim-editor">
+        <summary>&#9986; Trim${active ? ' (on)' : ''}</summary>
+        <div class="trim-fields" data-sound="${escapeHtml(nameOrPath)}">
+          ${field('start', 'Start (s)', '0')}
+          ${field('maxDuration', 'Max length (s)', 'full')}
+          ${field('fadeOut', 'Fade-out (s)', 'none')}
+          <div class="trim-actions">
+            <button class="btn primary trim-save-btn">Save</button>
+            ${this.sfxManager.hasCustomTrim(nameOrPath) ? '<button class="btn secondary trim-reset-btn">Reset</button>' : ''}
+          </div>
+        </div>
+      </details>`;
   }
 
-  private getHtmlContent(): string {
-    const dir = this.sfxManager.getBuiltInDir();
-    const selectedSound = this.sfxManager.getSelectedSoundName();
-    const builtIn = getBuiltInSounds(dir);
-    const nonce = getNonce();
-    const enabled = this.sfxManager.isEnabled();
-
-    const isCustom = selectedSound && !this.sfxManager.isBuiltIn(selectedSound);
-    const currentLabel = !selectedSound
-      ? 'None'
-      : isCustom
-        ? path.basename(selectedSound)
-        : getBuiltInSoundLabel(dir, selectedSound);
+  private renderGainEditor(nameOrPath: string): string {
+    const override = this.sfxManager.getGainOverride(nameOrPath);
+    const analyzed = this.sfxManager.getAnalyzedGain(nameOrPath);
+    const current = override ?? analyzed;
+    const status = override !== undefined ? 'manual' : analyzed !== undefined ? 'auto' : 'not analyzed';
+    return `
+      <details class="trim-editor">
+        <summary>&#128266; Gain${current !== undefined ? ` &times;${current.toFixed(2)}` : ''} (${status})</summary>
+        <div class="trim-fields gain-fields" data-sound="${escapeHtml(nameOrPath)}">
+          <label>Gain (&times;)
+            <input type="number" min="0.1" max="4" step="0.05" placeholder="${analyzed?.toFixed(2) ?? '1.00'}" value="${override ?? ''}">
+          </label>
+          <div class="trim-actions">
+            <button class="btn primary gain-save-btn">Save</button>
+            ${override !== undefined ? '<button class="btn secondary gain-reset-btn">Auto</button>' : ''}
+          </div>
+        </div>
+      </details>`;
+  }
 
-    const soundCards = builtIn
-      .map(({ name, label, emoji }) => {
-        const isSelected = name === selectedSound;
-        return `
+  private renderSoundCard(soundName: string, label: string, emoji: string, selectedSound: string, extra = ''): string {
+    const isSelected = soundName === selectedSound;
+    return `
         <div class="sound-card ${isSelected ? 'selected' : ''}">
           <div class="sound-icon">${escapeHtml(emoji)}</div>
           <div class="sound-name">${escapeHtml(label)}</div>
+          ${extra}
           <div class="sound-actions">
-            <button class="btn secondary preview-btn" data-sound="${escapeHtml(name)}">
+            <button class="btn secondary preview-btn" data-sound="${escapeHtml(soundName)}">
               <span class="codicon">&#9654;</span> Preview
             </button>
-            <button class="btn primary select-btn" data-sound="${escapeHtml(name)}"
+            <button class="btn primary select-btn" data-sound="${escapeHtml(soundName)}"
               ${isSelected ? 'disabled' : ''}>
               ${isSelected ? '&#10003; Selected' : 'Select'}
             </button>
           </div>
+          ${this.renderTrimEditor(soundName)}
+          ${this.renderGainEditor(soundName)}
         </div>`;
+  }
+
+  private renderUserSection(selectedSound: string): string {
+    const sounds = this.sfxManager.getUserSounds().getSounds();
+    if (sounds.length === 0) return '';
+
+    const cards = sounds
+      .map((sound) => {
+        const soundName = userSoundName(sound.id);
+        const usedBy = this.sfxManager.getUsedBy(soundName);
+        const extra = `
+          <div class="user-source" title="${escapeHtml(sound.source)}">${escapeHtml(describeSource(sound.source))}</div>
+          ${usedBy ? `<div class="user-used">Used for: ${escapeHtml(usedBy)}</div>` : ''}
+          <div class="synth-actions">
+            <button class="link-btn user-rename-btn" data-sound="${escapeHtml(soundName)}">Rename</button>
+            <button class="link-btn user-delete-btn" data-sound="${escapeHtml(soundName)}">Delete</button>
+          </div>`;
+        return this.renderSoundCard(soundName, sound.label, sound.emoji, selectedSound, extra);
       })
       .join('\n');
 
+    return `
+  <h2>My Sounds</h2>
+  <div class="sound-grid">${cards}</div>`;
+  }
+
+  /** One section per enabled sound pack, followed by the pack management buttons. */
+  private renderPackSections(selectedSound: string): string {
+    const packs = this.sfxManager.getSoundPacks();
+    const sections = packs.getEnabledPacks()
+      .map((pack) => {
+        const cards = pack.sounds
+          .map(({ name, label, emoji }) =>
+            this.renderSoundCard(packSoundName(pack.manifest.name, name), label, emoji, selectedSound)
+          )
+          .join('\n');
+        const author = pack.manifest.author ? ` <span class="pack-author">by ${escapeHtml(pack.manifest.author)}</span>` : '';
+        const description = pack.manifest.description
+          ? `<p class="pack-description">${escapeHtml(pack.manifest.description)}</p>`
+          : '';
+        return `
+  <h2>${escapeHtml(pack.label)}${author}</h2>
+  ${description}
+  <div class="sound-grid">${cards}</div>`;
+      })
+      .join('\n');
+
+    const disabled = packs.getPacks().length - packs.getEnabledPacks().length;
+    return `${sections}
+  <div class="custom-section">
+    <h2>Sound Packs</h2>
+    <p>Install a folder or .zip with a <code>${MANIFEST_FILE}</code> to add its sounds here.${
+      disabled > 0 ? ` ${disabled} installed pack${disabled === 1 ? ' is' : 's are'} disabled.` : ''
+    }</p>
+    <div class="trim-actions">
+      <button class="btn primary" id="install-pack-btn">Install Sound Pack...</button>
+      ${packs.getPacks().length > 0 ? '<button class="btn secondary" id="manage-packs-btn">Manage Packs...</button>' : ''}
+    </div>
+  </div>`;
+  }
+
+  private renderSynthSection(selectedSound: string): string {
+    const cards = this.sfxManager.getSynthPresets()
+      .map((preset) => {
+        const soundName = SYNTH_PREFIX + preset.name;
+        const isSelected = soundName === selectedSound;
+        const isCustom = !BUILT_IN_SYNTHS.includes(preset);
+        const summary = `${preset.waveform}, ${preset.notes.length} note${preset.notes.length === 1 ? '' : 's'}`;
+        return `
+        <div class="sound-card ${isSelected ? 'selected' : ''}">
+          <div class="sound-icon">${escapeHtml(preset.emoji ?? '\u{1F3B9}')}</div>
+          <div class="sound-name">${escapeHtml(preset.label)}</div>
+          <div class="synth-summary">${escapeHtml(summary)}</div>
+          <div class="sound-actions">
+            <button class="btn secondary preview-btn" data-sound="${escapeHtml(soundName)}">
+              <span class="codicon">&#9654;</span> Preview
+            </button>
+            <button class="btn primary select-btn" data-sound="${escapeHtml(soundName)}"
+              ${isSelected ? 'disabled' : ''}>
+              ${isSelected ? '&#10003; Selected' : 'Select'}
+            </button>
+          </div>
+          <div class="synth-actions">
+            <button class="link-btn synth-edit-btn" data-preset="${escapeHtml(JSON.stringify(preset))}">
+              ${isCustom ? 'Edit' : 'Copy to editor'}
+            </button>
+            ${isCustom ? `<button class="link-btn synth-delete-btn" data-sound="${escapeHtml(soundName)}">Delete</button>` : ''}
+          </div>
+          ${this.renderGainEditor(soundName)}
+        </div>`;
+      })
+      .join('\n');
+
+    const waveformOptions = WAVEFORMS.map((w) => `<option value="${w}">${w}</option>`).join('');
+    const numberField = (key: keyof SynthPreset, label: string, value: number | string) => `
+        <label>${label}
+          <input type="number" min="0" step="1" id="synth-${key}" value="${value}">
+        </label>`;
+
+    return `
+  <h2>Synth</h2>
+  <div class="sound-grid">${cards}</div>
+
+  <div class="custom-section synth-editor">
+    <h2>Tone Editor</h2>
+    <p>Build a tone from notes played one after another. Frequencies are in Hz, e.g. 523, 659, 784 for a C major arpeggio.</p>
+    <div class="synth-fields">
+      <label>Name
+        <input type="text" id="synth-label" placeholder="My Tone">
+      </label>
+      <label>Waveform
+        <select id="synth-waveform">${waveformOptions}</select>
+      </label>
+      <label class="wide">Notes (Hz)
+        <input type="text" id="synth-notes" value="880">
+      </label>
+      ${numberField('noteMs', 'Note length (ms)', 150)}
+      ${numberField('gapMs', 'Gap (ms)', 0)}
+      ${numberField('attackMs', 'Attack (ms)', 5)}
+      ${numberField('decayMs', 'Decay (ms, 0 = none)', 0)}
+      ${numberField('releaseMs', 'Release (ms)', 30)}
+    </div>
+    <div class="trim-actions">
+      <button class="btn secondary" id="synth-preview-btn"><span class="codicon">&#9654;</span> Preview</button>
+      <button class="btn primary" id="synth-save-btn">Save Tone</button>
+    </div>
+  </div>`;
+  }
+
+  private updateContent(): void {
+    this.panel.webview.html = this.getHtmlContent();
+  }
+
+  private getHtmlContent(): string {
+    const dir = this.sfxManager.getBuiltInDir();
+    const selectedSound = this.sfxManager.getSelectedSoundName(this.activeSlot);
+    const builtIn = getBuiltInSounds(dir);
+    const nonce = getNonce();
+    const enabled = this.sfxManager.isEnabled();
+    const currentLabel = this.sfxManager.getSoundLabel(selectedSound);
+
+    const slotOptions = (Object.keys(SOUND_SLOTS) as SoundSlot[])
+      .map((slot) => `<option value="${slot}" ${slot === this.activeSlot ? 'selected' : ''}>${escapeHtml(SOUND_SLOTS[slot].label)}</option>`)
+      .join('');
+
+    const soundCards = builtIn
+      .map(({ name, label, emoji }) => this.renderSoundCard(name, label, emoji, selectedSound))
+      .join('\n');
+
+    const announceSelected = selectedSound === ANNOUNCE_SOUND;
+    const announceTemplate = this.sfxManager.getConfig().get<string>(
+      'announce.failureTemplate',
+      '{command} failed with exit code {exitCode}'
+    );
+    const announceSection = `
+  <h2>Spoken Announcement</h2>
+  <div class="sound-grid">
+    <div class="sound-card ${announceSelected ? 'selected' : ''}">
+      <div class="sound-icon">&#128483;</div>
+      <div class="sound-name">Spoken Announcement</div>
+      <div class="announce-template">&ldquo;${escapeHtml(announceTemplate)}&rdquo;</div>
+      <div class="sound-actions">
+        <button class="btn secondary preview-btn" data-sound="${ANNOUNCE_SOUND}">
+          <span class="codicon">&#9654;</span> Preview
+        </button>
+        <button class="btn primary select-btn" data-sound="${ANNOUNCE_SOUND}" ${announceSelected ? 'disabled' : ''}>
+          ${announceSelected ? '&#10003; Selected' : 'Select'}
+        </button>
+      </div>
+      <button class="link-btn" id="edit-announce-btn">Edit templates and speech engine...</button>
+    </div>
+  </div>`;
+
+    const customTrim = path.isAbsolute(selectedSound)
+      ? `<hr class="divider">
+    <p>Trim the selected file (${escapeHtml(currentLabel)}):</p>
+    ${this.renderTrimEditor(selectedSound)}
+    ${this.renderGainEditor(selectedSound)}`
+      : '';
+
     const builtInSection = builtIn.length > 0
       ? `<h2>Built-in Sounds</h2>
          <div class="sound-grid">${soundCards}</div>`
@@ -177,6 +461,34 @@ export class SfxLibraryPanel {
       font-weight: 500;
     }
 
+    .current-badge .clear-btn {
+      background: none;
+      border: none;
+      color: inherit;
+      cursor: pointer;
+      font-size: 1em;
+      opacity: 0.8;
+    }
+    .current-badge .clear-btn:hover { opacity: 1; }
+
+    .slot-row {
+      display: flex;
+      align-items: center;
+      gap: 10px;
+      margin-bottom: 20px;
+      font-size: 0.9em;
+    }
+
+    .slot-row select {
+      background: var(--vscode-dropdown-background);
+      color: var(--vscode-dropdown-foreground);
+      border: 1px solid var(--vscode-dropdown-border, rgba(128,128,128,0.35));
+      padding: 4px 8px;
+      border-radius: 4px;
+      font-family: inherit;
+      font-size: 13px;
+    }
+
     h2 {
       font-size: 1.1em;
       font-weight: 600;
@@ -325,6 +637,110 @@ export class SfxLibraryPanel {
       color: #fff;
     }
 
+    .announce-template {
+      font-size: 0.85em;
+      font-style: italic;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .link-btn {
+      background: none;
+      border: none;
+      padding: 0;
+      color: var(--vscode-textLink-foreground);
+      cursor: pointer;
+      font-family: inherit;
+      font-size: 0.85em;
+      text-align: left;
+    }
+    .link-btn:hover { text-decoration: underline; }
+
+    .synth-summary {
+      font-size: 0.85em;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .synth-actions { display: flex; gap: 12px; }
+
+    .synth-editor { margin-bottom: 28px; }
+
+    .synth-fields {
+      display: grid;
+      grid-template-columns: repeat(auto-fill, minmax(200px, 1fr));
+      gap: 10px 16px;
+      margin: 12px 0;
+      font-size: 0.85em;
+    }
+
+    .synth-fields label {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+    }
+
+    .synth-fields label.wide { grid-column: 1 / -1; }
+
+    .synth-fields input, .synth-fields select {
+      background: var(--vscode-input-background);
+      color: var(--vscode-input-foreground);
+      border: 1px solid var(--vscode-input-border, rgba(128,128,128,0.35));
+      padding: 4px 8px;
+      border-radius: 4px;
+      font-family: inherit;
+      font-size: 13px;
+    }
+
+    .trim-editor { font-size: 0.85em; }
+    .trim-editor summary {
+      cursor: pointer;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .trim-fields {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      margin-top: 8px;
+    }
+
+    .trim-fields label {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      gap: 8px;
+    }
+
+    .trim-fields input {
+      width: 72px;
+      background: var(--vscode-input-background);
+      color: var(--vscode-input-foreground);
+      border: 1px solid var(--vscode-input-border, rgba(128,128,128,0.35));
+      padding: 2px 6px;
+      border-radius: 4px;
+      font-family: inherit;
+    }
+
+    .trim-actions { display: flex; gap: 8px; }
+
+    .user-source, .user-used {
+      font-size: 0.8em;
+      opacity: 0.7;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .pack-author {
+      font-size: 0.8em;
+      font-weight: normal;
+      opacity: 0.7;
+    }
+
+    .pack-description {
+      margin-top: -4px;
+      opacity: 0.8;
+    }
+
     .disabled-overlay {
       opacity: 0.4;
       pointer-events: none;
@@ -334,10 +750,12 @@ export class SfxLibraryPanel {
 <body>
   <div class="header">
     <h1>Terminal Sound Effects Library</h1>
-    <div class="current-badge">&#9835; Now playing: ${escapeHtml(currentLabel)}</div>
+    <div class="current-badge">&#9835; ${escapeHtml(SOUND_SLOTS[this.activeSlot].label)}: ${escapeHtml(currentLabel)}
+      ${selectedSound ? '<button class="clear-btn" id="clear-btn" title="Play nothing">&#10005;</button>' : ''}
+    </div>
   </div>
 
-  <p class="subtitle">Choose a sound to play when a terminal command fails.</p>
+  <p class="subtitle">Choose a sound to play when a terminal command fails or succeeds.</p>
 
   <div class="toggle-row">
     <span class="toggle-label">${enabled ? '&#128266; SFX Enabled' : '&#128263; SFX Disabled'}</span>
@@ -347,11 +765,24 @@ export class SfxLibraryPanel {
   <hr class="divider">
 
   <div class="${enabled ? '' : 'disabled-overlay'}">
+  <div class="slot-row">
+    <label for="slot-select">Assign sounds to:</label>
+    <select id="slot-select">${slotOptions}</select>
+  </div>
+
   ${builtInSection}
 
+  ${this.renderUserSection(selectedSound)}
+
+  ${this.renderPackSections(selectedSound)}
+
+  ${this.renderSynthSection(selectedSound)}
+
+  ${announceSection}
+
   <div class="custom-section">
     <h2>Custom Sound</h2>
-    <p>Choose a WAV or MP3 file from your computer:</p>
+    <p>Choose a WAV or MP3 file from your computer. It is copied into My Sounds:</p>
     <button class="btn primary" id="browse-btn">Browse Files...</button>
 
     <hr class="divider">
@@ -361,6 +792,7 @@ export class SfxLibraryPanel {
       <input type="text" id="url-input" placeholder="https://example.com/sound.mp3" />
       <button class="btn primary" id="url-btn">Download &amp; Set</button>
     </div>
+    ${customTrim}
   </div>
   </div>
 
@@ -371,6 +803,34 @@ export class SfxLibraryPanel {
       vscode.postMessage({ command: 'toggle' });
     });
 
+    document.getElementById('slot-select').addEventListener('change', (e) => {
+      vscode.postMessage({ command: 'setSlot', slot: e.target.value });
+    });
+
+    document.getElementById('clear-btn')?.addEventListener('click', () => {
+      vscode.postMessage({ command: 'clear' });
+    });
+
+    document.querySelectorAll('.user-rename-btn').forEach(btn => {
+      btn.addEventListener('click', () => {
+        vscode.postMessage({ command: 'renameUserSound', soundName: btn.dataset.sound });
+      });
+    });
+
+    document.querySelectorAll('.user-delete-btn').forEach(btn => {
+      btn.addEventListener('click', () => {
+        vscode.postMessage({ command: 'deleteUserSound', soundName: btn.dataset.sound });
+      });
+    });
+
+    document.getElementById('install-pack-btn').addEventListener('click', () => {
+      vscode.postMessage({ command: 'installPack' });
+    });
+
+    document.getElementById('manage-packs-btn')?.addEventListener('click', () => {
+      vscode.postMessage({ command: 'managePacks' });
+    });
+
     document.querySelectorAll('.preview-btn').forEach(btn => {
       btn.addEventListener('click', () => {
         vscode.postMessage({ command: 'preview', soundName: btn.dataset.sound });
@@ -383,6 +843,64 @@ export class SfxLibraryPanel {
       });
     });
 
+    document.getElementById('edit-announce-btn').addEventListener('click', () => {
+      vscode.postMessage({ command: 'editAnnouncement' });
+    });
+
+    const synthKeys = ['label', 'waveform', 'notes', 'noteMs', 'gapMs', 'attackMs', 'decayMs', 'releaseMs'];
+    const readSynth = () => {
+      const preset = {};
+      synthKeys.forEach(key => { preset[key] = document.getElementById('synth-' + key).value; });
+      return preset;
+    };
+
+    document.getElementById('synth-preview-btn').addEventListener('click', () => {
+      vscode.postMessage({ command: 'previewSynth', preset: readSynth() });
+    });
+
+    document.getElementById('synth-save-btn').addEventListener('click', () => {
+      vscode.postMessage({ command: 'saveSynth', preset: readSynth() });
+    });
+
+    document.querySelectorAll('.synth-edit-btn').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const preset = JSON.parse(btn.dataset.preset);
+        synthKeys.forEach(key => {
+          const value = key === 'notes' ? preset.notes.join(', ') : preset[key];
+          document.getElementById('synth-' + key).value = value ?? 0;
+        });
+        document.getElementById('synth-label').scrollIntoView({ behavior: 'smooth' });
+      });
+    });
+
+    document.querySelectorAll('.synth-delete-btn').forEach(btn => {
+      btn.addEventListener('click', () => {
+        vscode.postMessage({ command: 'deleteSynth', soundName: btn.dataset.sound });
+      });
+    });
+
+    document.querySelectorAll('.gain-fields').forEach(fields => {
+      const soundName = fields.dataset.sound;
+      fields.querySelector('.gain-save-btn').addEventListener('click', () => {
+        vscode.postMessage({ command: 'setGain', soundName, gain: fields.querySelector('input').value });
+      });
+      fields.querySelector('.gain-reset-btn')?.addEventListener('click', () => {
+        vscode.postMessage({ command: 'setGain', soundName, gain: '' });
+      });
+    });
+
+    document.querySelectorAll('.trim-fields:not(.gain-fields)').forEach(fields => {
+      const soundName = fields.dataset.sound;
+      fields.querySelector('.trim-save-btn').addEventListener('click', () => {
+        const trim = {};
+        fields.querySelectorAll('input').forEach(input => { trim[input.dataset.key] = input.value; });
+        vscode.postMessage({ command: 'setTrim', soundName, trim });
+      });
+      fields.querySelector('.trim-reset-btn')?.addEventListener('click', () => {
+        vscode.postMessage({ command: 'resetTrim', soundName });
+      });
+    });
+
     document.getElementById('browse-btn').addEventListener('click', () => {
       vscode.postMessage({ command: 'selectFile' });
     });
@@ -411,6 +929,28 @@ export class SfxLibraryPanel {
   }
 }
 
+/** Reads the trim editor's fields; blank or invalid fields are left out. */
+function parseTrim(raw: Record<string, string> | undefined): SoundTrim {
+  const trim: SoundTrim = {};
+  for (const key of ['start', 'maxDuration', 'fadeOut'] as const) {
+    const value = parseFloat(raw?.[key] ?? '');
+    if (Number.isFinite(value) && value > 0) trim[key] = value;
+  }
+  return trim;
+}
+
+/** Where a user sound came from, shortened for a card: the host and file name of a URL, or a file name. */
+function describeSource(source: string): string {
+  if (!source) return 'Imported earlier';
+  try {
+    const url = new URL(source);
+    if (url.protocol === 'http:' || url.protocol === 'https:') {
+      return `${url.hostname} / ${path.basename(url.pathname) || url.pathname}`;
+    }
+  } catch { /* not a URL */ }
+  return path.basename(source);
+}
+
 function getNonce(): string {
   let text = '';
   const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
@@ -3,37 +3,273 @@ import * as path from 'path';
 import * as fs from 'fs';
 import * as https from 'https';
 import * as http from 'http';
-import { playSound } from './audioPlayer';
-import { getBuiltInSoundFile, getBuiltInSoundNames } from './generateSounds';
+import { configureOverlap, configurePlayer, playSound, stopAllSounds, testAudioOutput } from './audioPlayer';
+import { OverlapPolicy } from './playbackController';
+import { ANNOUNCE_SOUND, AnnounceContext, getCommandName, renderAnnouncement, speak } from './announcer';
+import { BUILT_IN_SYNTHS, SYNTH_PREFIX, SynthPreset, getSynthFile, getSynthFileName, isSynthSound } from './synth';
+import { SoundTrim, getBuiltInSoundFile, getBuiltInSoundLabel, getBuiltInSoundNames, getBuiltInSoundTrim } from './generateSounds';
+import { exitCodeMatchWidth, globToRegExp, matchesExitCode } from './matchers';
+import { CommandOutcome, CommandResult } from './terminalMonitor';
+import { TaskResult } from './taskMonitor';
+import { DebugEvent, DebugEventKind } from './debugMonitor';
+import { DiagnosticsChange } from './diagnosticsMonitor';
+import { NotebookCellResult } from './notebookMonitor';
+import { QuietPeriod, isQuietTime } from './quietHours';
+import { FailureHistory } from './failureHistory';
+import { LoudnessAnalyzer } from './loudness';
+import { SoundPack, SoundPackManager, isPackSound, packSoundName } from './soundPacks';
+import { UserSound, UserSoundCollection, isAudioFile, isUserSound, userSoundName } from './userSounds';
+
+export type SoundSlot =
+  | CommandOutcome
+  | 'longSuccess'
+  | 'longFailure'
+  | 'buildTaskFailure'
+  | 'testTaskFailure'
+  | 'debugTerminated'
+  | 'debugException'
+  | 'debugBreakpoint'
+  | 'diagnosticsRegression'
+  | 'diagnosticsClean'
+  | 'notebookFailure'
+  | 'notebookSuccess'
+  | 'redemption';
+
+interface SoundSlotInfo {
+  label: string;
+  setting: string; // key under terminalSfx.* that stores the sound name or path
+}
+
+/** One entry of `terminalSfx.commandRules`. */
+interface CommandRule {
+  pattern: string;
+  type?: 'glob' | 'regex';
+  exitCodes?: string;
+  outcome?: CommandOutcome | 'any';
+  sound: string | null;
+}
+
+export const SOUND_SLOTS: Record<SoundSlot, SoundSlotInfo> = {
+  failure: { label: 'Failure', setting: 'selectedSound' },
+  success: { label: 'Success', setting: 'successSound' },
+  longSuccess: { label: 'Long command finished', setting: 'longCommand.successSound' },
+  longFailure: { label: 'Long command failed', setting: 'longCommand.failureSound' },
+  buildTaskFailure: { label: 'Build task failed', setting: 'tasks.buildFailureSound' },
+  testTaskFailure: { label: 'Test task failed', setting: 'tasks.testFailureSound' },
+  debugTerminated: { label: 'Debug session crashed', setting: 'debug.terminatedSound' },
+  debugException: { label: 'Debugger: exception', setting: 'debug.exceptionSound' },
+  debugBreakpoint: { label: 'Debugger: breakpoint hit', setting: 'debug.breakpointSound' },
+  diagnosticsRegression: { label: 'New errors in Problems', setting: 'diagnostics.errorSound' },
+  diagnosticsClean: { label: 'Problems cleared', setting: 'diagnostics.cleanSound' },
+  notebookFailure: { label: 'Notebook cell failed', setting: 'notebook.failureSound' },
+  notebookSuccess: { label: 'Notebook cell succeeded', setting: 'notebook.successSound' },
+  redemption: { label: 'Streak broken (redemption)', setting: 'streak.redemptionSound' },
+};
+
+/** Own keys only, so names like "constructor" from webviews or manifests aren't taken for slots. */
+export function isSoundSlot(value: unknown): value is SoundSlot {
+  return typeof value === 'string' && Object.hasOwn(SOUND_SLOTS, value);
+}
+
+/** One step of `terminalSfx.streak.ladder`, used once a failure streak reaches `from`. */
+interface StreakStep {
+  from: number;
+  sound: string;
+  volume?: number;
+}
+
+export interface StreakInfo {
+  label: string; // the command line or terminal the streak belongs to
+  count: number;
+}
+
+/**
+ * A finished run fed through the outcome pipeline (command rules, exit code mapping, streaks,
+ * long-command sounds, announcements, history). Terminal commands and notebook cells both become one.
+ */
+interface OutcomeEvent extends Omit<CommandResult, 'terminal'> {
+  terminal?: vscode.Terminal; // for the focus policy and terminal-scoped streaks
+  source: string; // terminal name, or what stands in for it, e.g. "Notebook: analysis.ipynb"
+  command: string; // {command} in announcements
+  slot?: SoundSlot; // played instead of the success/failure slot
+}
+
+interface DebugEventInfo {
+  label: string;
+  slot: SoundSlot;
+  fallback?: SoundSlot; // slot used when the event's own slot is empty
+}
+
+// File extensions for downloads whose URL doesn't end in one
+const AUDIO_CONTENT_TYPES: Record<string, string> = {
+  'audio/mpeg': '.mp3',
+  'audio/mp3': '.mp3',
+  'audio/wav': '.wav',
+  'audio/x-wav': '.wav',
+  'audio/wave': '.wav',
+  'audio/vnd.wave': '.wav',
+  'audio/ogg': '.ogg',
+  'application/ogg': '.ogg',
+};
+
+export const DEBUG_EVENTS: Record<DebugEventKind, DebugEventInfo> = {
+  terminated: { label: 'Abnormal exit', slot: 'debugTerminated', fallback: 'failure' },
+  exception: { label: 'Exception', slot: 'debugException', fallback: 'failure' },
+  breakpoint: { label: 'Breakpoint hit', slot: 'debugBreakpoint' },
+};
 
 export class SfxManager implements vscode.Disposable {
-  private downloadDir: string;
+  private synthDir: string;
   private builtInDir: string;
   private outputChannel: vscode.OutputChannel;
+  private history: FailureHistory;
+  private loudness: LoudnessAnalyzer;
+  private packs: SoundPackManager;
+  private userSounds: UserSoundCollection;
   private lastPlayTime = 0;
   private readonly DEBOUNCE_MS = 300;
+  private readonly REDEMPTION_MIN_STREAK = 2;
+  private readonly SNOOZE_KEY = 'terminalSfx.snoozeUntil';
+  private readonly TRIMS_KEY = 'terminalSfx.soundTrims';
+  private readonly SYNTHS_KEY = 'terminalSfx.synthPresets';
+  private readonly GAINS_KEY = 'terminalSfx.soundGains';
+  private snoozeUntil: number | 'session' | undefined;
+  private snoozeTimer: ReturnType<typeof setTimeout> | undefined;
+  private streaks = new Map<vscode.Terminal | string, number>();
+  private lastStreak: StreakInfo | undefined;
+  private readonly stateEmitter = new vscode.EventEmitter<void>();
+  /** Fires when runtime state shown in the UI (not settings) changes, e.g. the failure streak. */
+  readonly onDidChangeState = this.stateEmitter.event;
   private disposables: vscode.Disposable[] = [];
 
   constructor(private context: vscode.ExtensionContext) {
     this.builtInDir = path.join(context.extensionUri.fsPath, 'media', 'sounds');
-    this.downloadDir = path.join(context.globalStorageUri.fsPath, 'sounds');
+    this.synthDir = path.join(context.globalStorageUri.fsPath, 'synth');
     this.outputChannel = vscode.window.createOutputChannel('Terminal Sound Effects');
-    this.disposables.push(this.outputChannel);
+    this.history = new FailureHistory(context.globalStorageUri.fsPath, (message) => this.log(message));
+    this.loudness = new LoudnessAnalyzer(context.globalStorageUri.fsPath, (message) => this.log(message));
+    this.packs = new SoundPackManager(context.globalStorageUri.fsPath, context.globalState, (message) => this.log(message));
+    this.userSounds = new UserSoundCollection(context.globalStorageUri.fsPath, (message) => this.log(message));
+    this.disposables.push(
+      this.outputChannel,
+      this.stateEmitter,
+      this.history,
+      this.loudness,
+      this.packs,
+      this.userSounds,
+      // Terminal-scoped streaks end with their terminal
+      vscode.window.onDidCloseTerminal((terminal) => this.streaks.delete(terminal)),
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (
+          e.affectsConfiguration('terminalSfx.player') ||
+          e.affectsConfiguration('terminalSfx.customPlayerCommand') ||
+          e.affectsConfiguration('terminalSfx.overlap')
+        ) {
+          this.applyPlayerSettings();
+        }
+      })
+    );
+    this.applyPlayerSettings();
   }
 
   private readonly DEFAULT_SOUND = 'faah';
 
   async initialize(): Promise<void> {
-    await fs.promises.mkdir(this.downloadDir, { recursive: true });
+    await this.userSounds.load();
+    await this.packs.load();
     await this.resetIfInvalid();
+    await this.history.load();
+    await this.loudness.load();
+    this.restoreSnooze();
+    // Runs in the background; sounds play uncorrected until their analysis is done
+    this.loudness.analyzeAll(this.getKnownSoundFiles());
+  }
+
+  /** Built-in, synth, pack and user sounds, plus custom files selected in any slot. */
+  private getKnownSoundFiles(): string[] {
+    const names = [
+      ...getBuiltInSoundNames(this.builtInDir),
+      ...this.getSynthPresets().map((preset) => SYNTH_PREFIX + preset.name),
+      ...this.packs.getEnabledPacks().flatMap((pack) => pack.sounds.map((s) => packSoundName(pack.manifest.name, s.name))),
+      ...this.userSounds.getSounds().map((sound) => userSoundName(sound.id)),
+      ...(Object.keys(SOUND_SLOTS) as SoundSlot[]).map((slot) => this.getSelectedSoundName(slot)).filter((s) => path.isAbsolute(s)),
+    ];
+    const files = names.map((name) => this.resolveSound(name)).filter((f): f is string => !!f && f !== ANNOUNCE_SOUND);
+    return [...new Set(files)];
   }
 
   private async resetIfInvalid(): Promise<void> {
-    const selected = this.getSelectedSoundName();
-    if (!selected) return;
-    if (path.isAbsolute(selected) && fs.existsSync(selected)) return;
-    if (!path.isAbsolute(selected) && this.isBuiltIn(selected)) return;
-    await this.selectSound(this.DEFAULT_SOUND);
+    for (const slot of Object.keys(SOUND_SLOTS) as SoundSlot[]) {
+      const selected = this.getSelectedSoundName(slot);
+      if (!selected) continue;
+      // Downloads used to be selected by path; they are in the user collection now
+      const collected = path.isAbsolute(selected) ? this.userSounds.getSoundName(selected) : undefined;
+      if (collected) {
+        await this.moveOverrides(selected, collected);
+        await this.selectSound(collected, slot);
+        continue;
+      }
+      if (path.isAbsolute(selected) && fs.existsSync(selected)) continue;
+      if (!path.isAbsolute(selected) && (this.isBuiltIn(selected) || selected === ANNOUNCE_SOUND)) continue;
+      if (isSynthSound(selected) && this.findSynthPreset(selected)) continue;
+      if (isPackSound(selected) && this.packs.findSound(selected)) continue;
+      if (isUserSound(selected) && this.userSounds.find(selected)) continue;
+      // Only the failure slot has a default; optional slots fall back to silence
+      await this.selectSound(slot === 'failure' ? this.DEFAULT_SOUND : '', slot);
+    }
+  }
+
+  log(message: string): void {
+    this.outputChannel.appendLine(message);
+  }
+
+  private applyPlayerSettings(): void {
+    configurePlayer(
+      {
+        player: this.getConfig().get<string>('player', 'auto'),
+        customCommand: this.getConfig().get<string>('customPlayerCommand', ''),
+      },
+      (message) => this.log(message)
+    );
+    configureOverlap({
+      policy: this.getConfig().get<OverlapPolicy>('overlap.policy', 'interrupt'),
+      maxVoices: this.getConfig().get<number>('overlap.maxVoices', 3),
+    });
+  }
+
+  /** Stops every sound that is playing or queued. */
+  stopAll(): void {
+    const stopped = stopAllSounds();
+    if (stopped > 0) this.log(`Stopped ${stopped} playing sound${stopped === 1 ? '' : 's'}`);
+  }
+
+  /** Plays the failure sound through each audio backend and reports the results in the Output channel. */
+  async testAudioOutput(): Promise<void> {
+    const filePath = this.resolveSelectedSound() ?? this.resolveSound(this.DEFAULT_SOUND);
+    if (!filePath) {
+      vscode.window.showErrorMessage('No sound file available to test with.');
+      return;
+    }
+
+    this.outputChannel.show(true);
+    this.log(`Testing audio output with ${path.basename(filePath)} (player: ${this.getConfig().get<string>('player', 'auto')})`);
+    const reports = await testAudioOutput(filePath, this.getConfig().get<number>('volume', 80));
+    for (const report of reports) {
+      this.log(`  ${report.name}: ${report.status}${report.detail ? ` — ${report.detail}` : ''}`);
+    }
+
+    const chosen = reports.find((r) => r.status === 'chosen');
+    if (chosen) {
+      vscode.window.showInformationMessage(`Terminal Sound Effects is playing through ${chosen.name}.`);
+    } else {
+      vscode.window.showErrorMessage(
+        'No working audio player found. See the Terminal Sound Effects output for details.'
+      );
+    }
+  }
+
+  getHistory(): FailureHistory {
+    return this.history;
   }
 
   getBuiltInDir(): string {
@@ -48,15 +284,288 @@ export class SfxManager implements vscode.Disposable {
     return this.getConfig().get<boolean>('enabled', true);
   }
 
+  /** True while a `terminalSfx.quietHours.schedule` window is active. Doesn't touch `enabled`. */
+  isQuietTime(): boolean {
+    return isQuietTime(this.getConfig().get<QuietPeriod[]>('quietHours.schedule', []));
+  }
+
+  getQuietHoursMode(): 'mute' | 'lower' {
+    return this.getConfig().get<'mute' | 'lower'>('quietHours.mode', 'mute');
+  }
+
   async toggle(): Promise<void> {
     const current = this.isEnabled();
     await this.getConfig().update('enabled', !current, vscode.ConfigurationTarget.Global);
     vscode.window.showInformationMessage(`Terminal Sound Effects ${!current ? 'enabled' : 'disabled'}.`);
   }
 
-  resolveSelectedSound(): string | undefined {
-    const selected = this.getConfig().get<string>('selectedSound', '');
+  /** Snooze expiry as a timestamp, 'session' until VS Code restarts, or undefined when not snoozed. */
+  getSnoozeUntil(): number | 'session' | undefined {
+    return this.snoozeUntil;
+  }
+
+  isSnoozed(): boolean {
+    return this.snoozeUntil !== undefined;
+  }
+
+  async pickSnooze(): Promise<void> {
+    const tomorrow = new Date();
+    tomorrow.setHours(24, 0, 0, 0);
+
+    const options: Array<vscode.QuickPickItem & { until: number | 'session' }> = [
+      { label: '15 minutes', until: Date.now() + 15 * 60_000 },
+      { label: '1 hour', until: Date.now() + 60 * 60_000 },
+      { label: 'Until tomorrow', description: tomorrow.toLocaleString(), until: tomorrow.getTime() },
+      { label: 'Until VS Code restarts', until: 'session' },
+    ];
+    const choice = await vscode.window.showQuickPick(options, { placeHolder: 'Snooze sound effects for...' });
+    if (choice) await this.snooze(choice.until);
+  }
+
+  getUserSounds(): UserSoundCollection {
+    return this.userSounds;
+  }
+
+  /** Lists My Sounds and offers the actions for the one picked. */
+  async manageUserSounds(): Promise<void> {
+    const sound = await this.pickUserSound('My Sounds');
+    if (!sound) return;
+
+    const action = await vscode.window.showQuickPick(['Use for...', 'Rename...', 'Delete'], { placeHolder: sound.label });
+    if (action === 'Rename...') await this.renameUserSound(userSoundName(sound.id));
+    else if (action === 'Delete') await this.deleteUserSound(userSoundName(sound.id));
+    else if (action) {
+      const slots = (Object.keys(SOUND_SLOTS) as SoundSlot[]).map((slot) => ({ label: SOUND_SLOTS[slot].label, slot }));
+      const choice = await vscode.window.showQuickPick(slots, { placeHolder: `Play "${sound.label}" for...` });
+      if (!choice) return;
+      await this.selectSound(userSoundName(sound.id), choice.slot);
+      vscode.window.showInformationMessage(`${choice.label} sound set to: ${sound.label}`);
+    }
+  }
+
+  async renameUserSound(soundName?: string): Promise<void> {
+    const sound = soundName ? this.userSounds.find(soundName) : await this.pickUserSound('Rename a sound');
+    if (!sound) return;
+    const label = await vscode.window.showInputBox({
+      prompt: 'Display name',
+      value: sound.label,
+      validateInput: (value) => (value.trim() ? undefined : 'Enter a name.'),
+    });
+    if (label === undefined) return;
+    const emoji = await vscode.window.showInputBox({ prompt: 'Emoji shown next to the name', value: sound.emoji });
+    await this.userSounds.update(sound.id, { label: label.trim(), emoji: emoji?.trim() || sound.emoji });
+  }
+
+  async deleteUserSound(soundName?: string): Promise<void> {
+    const sound = soundName ? this.userSounds.find(soundName) : await this.pickUserSound('Delete a sound');
+    if (!sound) return;
+    const choice = await vscode.window.showWarningMessage(
+      `Delete "${sound.label}" from My Sounds?`,
+      { modal: true, detail: 'Sound slots that use it fall back to their default.' },
+      'Delete'
+    );
+    if (choice !== 'Delete') return;
+    const name = userSoundName(sound.id);
+    await this.userSounds.remove(sound.id);
+    await this.resetSoundTrim(name);
+    await this.setGainOverride(name, undefined);
+    await this.resetIfInvalid();
+  }
+
+  private async pickUserSound(placeHolder: string): Promise<UserSound | undefined> {
+    const sounds = this.userSounds.getSounds();
+    if (sounds.length === 0) {
+      vscode.window.showInformationMessage('My Sounds is empty. Import a file or download one from the sound library.');
+      return undefined;
+    }
+    const items = sounds.map((sound) => ({
+      label: `${sound.emoji} ${sound.label}`,
+      description: this.getUsedBy(userSoundName(sound.id)),
+      detail: sound.source || undefined,
+      sound,
+    }));
+    return (await vscode.window.showQuickPick(items, { placeHolder }))?.sound;
+  }
+
+  /** Labels of the slots that play the sound, e.g. "Failure, Long Failure". */
+  getUsedBy(soundName: string): string {
+    return (Object.keys(SOUND_SLOTS) as SoundSlot[])
+      .filter((slot) => this.getSelectedSoundName(slot) === soundName)
+      .map((slot) => SOUND_SLOTS[slot].label)
+      .join(', ');
+  }
+
+  getSoundPacks(): SoundPackManager {
+    return this.packs;
+  }
+
+  async installSoundPack(): Promise<void> {
+    const kind = await vscode.window.showQuickPick(['Folder', 'Zip file'], { placeHolder: 'Install a sound pack from a...' });
+    if (!kind) return;
+    const uris = await vscode.window.showOpenDialog({
+      canSelectFiles: kind === 'Zip file',
+      canSelectFolders: kind === 'Folder',
+      canSelectMany: false,
+      filters: kind === 'Zip file' ? { 'Sound Pack': ['zip'] } : undefined,
+      title: 'Select a sound pack',
+    });
+    if (!uris || uris.length === 0) return;
+
+    let installed: SoundPack | undefined;
+    try {
+      installed = await this.packs.install(uris[0].fsPath);
+    } catch (err: any) {
+      vscode.window.showErrorMessage(`Could not install sound pack: ${err.message}`);
+      return;
+    }
+    if (!installed) return;
+
+    const pack = installed;
+    this.loudness.analyzeAll(pack.sounds.map((s) => path.join(pack.dir, s.file)));
+    const hasMappings = Object.keys(pack.manifest.mappings ?? {}).length > 0;
+    const choice = await vscode.window.showInformationMessage(
+      `Installed sound pack "${pack.label}" with ${pack.sounds.length} sounds.`,
+      ...(hasMappings ? ['Use Suggested Sounds'] : [])
+    );
+    if (choice) await this.applyPackMappings(pack);
+  }
+
+  /** Lists installed packs and offers the actions for the one picked. */
+  async listSoundPacks(): Promise<void> {
+    const pack = await this.pickSoundPack('Installed sound packs');
+    if (!pack) return;
+
+    const actions = [
+      pack.enabled ? 'Disable' : 'Enable',
+      ...(pack.enabled && pack.manifest.mappings ? ['Use Suggested Sounds'] : []),
+      'Uninstall',
+    ];
+    const action = await vscode.window.showQuickPick(actions, { placeHolder: pack.label });
+    if (action === 'Uninstall') await this.uninstallSoundPack(pack);
+    else if (action === 'Use Suggested Sounds') await this.applyPackMappings(pack);
+    else if (action) await this.toggleSoundPack(pack);
+  }
+
+  async toggleSoundPack(pack?: SoundPack): Promise<void> {
+    pack ??= await this.pickSoundPack('Enable or disable a sound pack');
+    if (!pack) return;
+    await this.packs.setEnabled(pack.manifest.name, !pack.enabled);
+    // Slots that used the pack's sounds fall back like any other missing sound
+    await this.resetIfInvalid();
+    vscode.window.showInformationMessage(`Sound pack "${pack.label}" ${pack.enabled ? 'disabled' : 'enabled'}.`);
+  }
+
+  async uninstallSoundPack(pack?: SoundPack): Promise<void> {
+    pack ??= await this.pickSoundPack('Uninstall a sound pack');
+    if (!pack) return;
+    const choice = await vscode.window.showWarningMessage(
+      `Uninstall sound pack "${pack.label}"?`,
+      { modal: true },
+      'Uninstall'
+    );
+    if (choice !== 'Uninstall') return;
+    await this.packs.uninstall(pack.manifest.name);
+    await this.resetIfInvalid();
+  }
+
+  private async pickSoundPack(placeHolder: string): Promise<SoundPack | undefined> {
+    const packs = this.packs.getPacks();
+    if (packs.length === 0) {
+      const choice = await vscode.window.showInformationMessage('No sound packs installed.', 'Install Sound Pack...');
+      if (choice) await this.installSoundPack();
+      return undefined;
+    }
+    const items = packs.map((pack) => ({
+      label: `${pack.enabled ? '$(check)' : '$(circle-slash)'} ${pack.label}`,
+      description: [pack.manifest.version && `v${pack.manifest.version}`, pack.manifest.author && `by ${pack.manifest.author}`]
+        .filter(Boolean)
+        .join(' '),
+      detail: `${pack.sounds.length} sounds${pack.manifest.description ? ` — ${pack.manifest.description}` : ''}`,
+      pack,
+    }));
+    return (await vscode.window.showQuickPick(items, { placeHolder }))?.pack;
+  }
+
+  /** Assigns the pack's sounds to the slots its manifest suggests. */
+  private async applyPackMappings(pack: SoundPack): Promise<void> {
+    const applied: string[] = [];
+    for (const [slot, sound] of Object.entries(pack.manifest.mappings ?? {})) {
+      if (!isSoundSlot(slot)) {
+        this.outputChannel.appendLine(`Sound pack "${pack.manifest.name}" maps unknown slot "${slot}"`);
+        continue;
+      }
+      if (!pack.sounds.some((s) => s.name === sound)) {
+        this.outputChannel.appendLine(`Sound pack "${pack.manifest.name}" maps ${slot} to missing sound "${sound}"`);
+        continue;
+      }
+      await this.selectSound(packSoundName(pack.manifest.name, sound), slot);
+      applied.push(SOUND_SLOTS[slot].label);
+    }
+    if (applied.length > 0) {
+      vscode.window.showInformationMessage(`Sounds from "${pack.label}" set for: ${applied.join(', ')}.`);
+    }
+  }
+
+  async snooze(until: number | 'session'): Promise<void> {
+    this.setSnooze(until);
+    // Session snoozes live in memory only, so a restart ends them
+    await this.context.globalState.update(this.SNOOZE_KEY, until === 'session' ? undefined : until);
+    const when = until === 'session' ? 'until VS Code restarts' : `until ${new Date(until).toLocaleTimeString()}`;
+    vscode.window.showInformationMessage(`Terminal Sound Effects snoozed ${when}.`);
+  }
+
+  async resume(): Promise<void> {
+    this.setSnooze(undefined);
+    await this.context.globalState.update(this.SNOOZE_KEY, undefined);
+  }
+
+  private restoreSnooze(): void {
+    const until = this.context.globalState.get<number>(this.SNOOZE_KEY);
+    if (until === undefined) return;
+    if (until > Date.now()) {
+      this.setSnooze(until);
+    } else {
+      this.context.globalState.update(this.SNOOZE_KEY, undefined);
+    }
+  }
+
+  private setSnooze(until: number | 'session' | undefined): void {
+    if (this.snoozeTimer) clearTimeout(this.snoozeTimer);
+    this.snoozeTimer = undefined;
+    this.snoozeUntil = until;
+
+    if (typeof until === 'number') {
+      this.snoozeTimer = setTimeout(async () => {
+        await this.resume();
+        vscode.window.showInformationMessage('Terminal Sound Effects snooze ended — sounds resumed.');
+      }, Math.max(0, until - Date.now()));
+    }
+    this.stateEmitter.fire();
+  }
+
+  resolveSelectedSound(slot: SoundSlot = 'failure'): string | undefined {
+    return this.resolveSound(this.getSelectedSoundName(slot));
+  }
+
+  resolveSound(selected: string): string | undefined {
     if (!selected) return undefined;
+    if (selected === ANNOUNCE_SOUND) return ANNOUNCE_SOUND;
+    if (isSynthSound(selected)) return this.resolveSynth(selected);
+    if (isPackSound(selected)) {
+      const found = this.packs.findSound(selected);
+      const filePath = found && path.join(found.pack.dir, found.sound.file);
+      if (filePath && fs.existsSync(filePath)) return filePath;
+      this.outputChannel.appendLine(`Sound pack sound not found or pack disabled: ${selected}`);
+      return undefined;
+    }
+
+    if (isUserSound(selected)) {
+      const sound = this.userSounds.find(selected);
+      const filePath = sound && this.userSounds.getFilePath(sound);
+      if (filePath && fs.existsSync(filePath)) return filePath;
+      this.outputChannel.appendLine(`Sound not found in My Sounds: ${selected}`);
+      return undefined;
+    }
 
     if (path.isAbsolute(selected)) {
       if (fs.existsSync(selected)) return selected;
@@ -74,21 +583,387 @@ export class SfxManager implements vscode.Disposable {
     return undefined;
   }
 
+  /**
+   * Looks up `terminalSfx.exitCodeSounds`. Returns the mapped sound name/path,
+   * 'default' to use the outcome's slot, null for silence, or undefined when
+   * no entry matches. Exact codes win over ranges; narrower ranges win over wider ones.
+   */
+  resolveExitCodeSound(exitCode: number): string | null | undefined {
+    const mapping = this.getConfig().get<Record<string, string | null>>('exitCodeSounds', {});
+    let best: { width: number; sound: string | null } | undefined;
+    for (const [spec, sound] of Object.entries(mapping)) {
+      const width = exitCodeMatchWidth(spec, exitCode);
+      if (width === undefined || (best && best.width <= width)) continue;
+      best = { width, sound: sound || null };
+    }
+    return best?.sound;
+  }
+
+  /**
+   * Finds the first rule in `terminalSfx.commandRules` matching the command line.
+   * A rule with `exitCodes` matches on those codes; otherwise on `outcome` (default: failure).
+   */
+  resolveCommandRule(result: Pick<CommandResult, 'outcome' | 'exitCode' | 'commandLine'>): CommandRule | undefined {
+    if (!result.commandLine) return undefined;
+    const rules = this.getConfig().get<CommandRule[]>('commandRules', []);
+
+    for (const [index, rule] of rules.entries()) {
+      if (!rule || typeof rule.pattern !== 'string') continue;
+
+      if (rule.exitCodes !== undefined) {
+        if (!matchesExitCode(String(rule.exitCodes), result.exitCode)) continue;
+      } else {
+        const outcome = rule.outcome ?? 'failure';
+        if (outcome !== 'any' && outcome !== result.outcome) continue;
+      }
+
+      let regex: RegExp;
+      try {
+        regex = rule.type === 'regex' ? new RegExp(rule.pattern) : globToRegExp(rule.pattern);
+      } catch (err: any) {
+        this.outputChannel.appendLine(`Command rule #${index + 1} has an invalid pattern: ${err.message}`);
+        continue;
+      }
+
+      if (regex.test(result.commandLine)) {
+        this.outputChannel.appendLine(
+          `Command rule #${index + 1} (${rule.pattern}) matched "${result.commandLine}" → ${rule.sound ?? 'silence'}`
+        );
+        return rule;
+      }
+    }
+    return undefined;
+  }
+
+  getLongCommandThreshold(): number {
+    return this.getConfig().get<number>('longCommand.thresholdSeconds', 30);
+  }
+
+  async setLongCommandThreshold(seconds: number): Promise<void> {
+    await this.getConfig().update('longCommand.thresholdSeconds', seconds, vscode.ConfigurationTarget.Global);
+  }
+
+  /** The long-command slot for a result that ran past the threshold and has a sound assigned. */
+  private getLongCommandSlot(result: OutcomeEvent): SoundSlot | undefined {
+    const threshold = this.getLongCommandThreshold();
+    if (threshold <= 0 || result.durationMs === undefined || result.durationMs < threshold * 1000) return undefined;
+    const slot: SoundSlot = result.outcome === 'success' ? 'longSuccess' : 'longFailure';
+    return this.getSelectedSoundName(slot) ? slot : undefined;
+  }
+
   handleError(): void {
-    if (!this.isEnabled()) return;
+    this.playSelected(this.resolveSelectedSound('failure'));
+  }
+
+  handleOutcome(result: CommandResult): void {
+    this.playOutcome({ ...result, source: result.terminal.name, command: getCommandName(result.commandLine) });
+  }
+
+  private playOutcome(result: OutcomeEvent): void {
+    const choice = this.chooseOutcomeSound(result);
+    if (!choice) return;
+
+    const played = this.playSelected(choice.filePath, {
+      volume: choice.volume,
+      terminal: result.terminal,
+      announce: {
+        outcome: result.outcome,
+        command: result.command,
+        commandLine: result.commandLine,
+        exitCode: result.exitCode,
+        terminal: result.source,
+        durationMs: result.durationMs,
+      },
+    });
+    if (played && choice.filePath && result.outcome === 'failure') {
+      this.history.record({
+        timestamp: Date.now(),
+        commandLine: result.commandLine,
+        exitCode: result.exitCode,
+        cwd: result.cwd,
+        terminalName: result.source,
+        sound: path.basename(choice.filePath),
+      });
+    }
+  }
+
+  /** Picks the sound for a result, or undefined when it is mapped to silence. */
+  private chooseOutcomeSound(result: OutcomeEvent): { filePath?: string; volume?: number } | undefined {
+    // Command rules are the most specific, so they take precedence over the exit code mapping
+    const rule = this.resolveCommandRule(result);
+    const mapped = rule ? rule.sound || null : this.resolveExitCodeSound(result.exitCode);
+    if (mapped === null) {
+      if (!rule) this.outputChannel.appendLine(`Exit code ${result.exitCode} is mapped to silence`);
+      return undefined;
+    }
+
+    const streakEnabled = this.isStreakEnabled();
+    const previousStreak = streakEnabled ? this.updateStreak(result) : 0;
+
+    if (mapped !== undefined && mapped !== 'default') {
+      return { filePath: this.resolveSound(mapped) };
+    }
+
+    // Long-running commands swap in their own "finished" sound; short ones keep the normal slot
+    const slot = this.getLongCommandSlot(result) ?? result.slot ?? result.outcome;
+
+    if (streakEnabled && result.outcome === 'failure') {
+      const step = this.resolveStreakStep(previousStreak + 1);
+      if (step) {
+        this.outputChannel.appendLine(`Failure streak ${previousStreak + 1} for ${this.lastStreak?.label} → ${step.sound}`);
+        const filePath = step.sound === 'default' ? this.resolveSelectedSound(slot) : this.resolveSound(step.sound);
+        return { filePath, volume: step.volume };
+      }
+    } else if (streakEnabled && previousStreak >= this.REDEMPTION_MIN_STREAK && this.getSelectedSoundName('redemption')) {
+      this.outputChannel.appendLine(`Streak of ${previousStreak} failures broken by "${result.commandLine}"`);
+      return { filePath: this.resolveSelectedSound('redemption') };
+    }
+
+    return { filePath: this.resolveSelectedSound(slot) };
+  }
+
+  isStreakEnabled(): boolean {
+    return this.getConfig().get<boolean>('streak.enabled', false);
+  }
+
+  async setStreakEnabled(enabled: boolean): Promise<void> {
+    await this.getConfig().update('streak.enabled', enabled, vscode.ConfigurationTarget.Global);
+  }
+
+  /** The streak of the most recently finished command (count 0 once it succeeded). */
+  getCurrentStreak(): StreakInfo | undefined {
+    return this.lastStreak;
+  }
+
+  /** Records the result in its streak and returns the failure count before this result. */
+  private updateStreak(result: OutcomeEvent): number {
+    const byTerminal = this.getConfig().get<string>('streak.scope', 'command') === 'terminal' || !result.commandLine;
+    const key = byTerminal ? result.terminal ?? result.source : result.commandLine;
+    const previous = this.streaks.get(key) ?? 0;
+    const count = result.outcome === 'failure' ? previous + 1 : 0;
+
+    if (count > 0) {
+      this.streaks.set(key, count);
+    } else {
+      this.streaks.delete(key);
+    }
+    const label = !byTerminal ? result.commandLine : result.terminal ? `terminal "${result.source}"` : result.source;
+    // The sidebar re-renders on every fire, so unchanged streaks (e.g. success after success) stay quiet
+    if (this.lastStreak?.label !== label || this.lastStreak.count !== count) {
+      this.lastStreak = { label, count };
+      this.stateEmitter.fire();
+    }
+    return previous;
+  }
+
+  /** The highest ladder step whose `from` the streak has reached. */
+  private resolveStreakStep(count: number): StreakStep | undefined {
+    const ladder = this.getConfig().get<StreakStep[]>('streak.ladder', []);
+    let best: StreakStep | undefined;
+    for (const step of ladder) {
+      if (!step || typeof step.sound !== 'string' || !(step.from <= count)) continue;
+      if (!best || step.from > best.from) best = step;
+    }
+    return best;
+  }
+
+  /** Looks up `terminalSfx.tasks.labelSounds`, whose keys are task labels or globs. Same return values as resolveExitCodeSound. */
+  resolveTaskLabelSound(label: string): string | null | undefined {
+    const mapping = this.getConfig().get<Record<string, string | null>>('tasks.labelSounds', {});
+    for (const [pattern, sound] of Object.entries(mapping)) {
+      if (pattern === label || globToRegExp(pattern).test(label)) return sound || null;
+    }
+    return undefined;
+  }
+
+  handleTaskResult(result: TaskResult): void {
+    const labelSound = this.resolveTaskLabelSound(result.label);
+    const mapped = labelSound !== undefined ? labelSound : this.resolveExitCodeSound(result.exitCode);
+    if (mapped === null) {
+      this.outputChannel.appendLine(`Task "${result.label}" (exit code ${result.exitCode}) is mapped to silence`);
+      return;
+    }
+
+    let filePath: string | undefined;
+    if (mapped !== undefined && mapped !== 'default') {
+      filePath = this.resolveSound(mapped);
+    } else {
+      // Build/test tasks can have their own failure sound; otherwise they sound like any command
+      let slot: SoundSlot = result.outcome;
+      if (result.outcome === 'failure' && result.group) {
+        const groupSlot: SoundSlot = result.group === 'build' ? 'buildTaskFailure' : 'testTaskFailure';
+        if (this.getSelectedSoundName(groupSlot)) slot = groupSlot;
+      }
+      filePath = this.resolveSelectedSound(slot);
+    }
+
+    const announce = { outcome: result.outcome, command: result.label, exitCode: result.exitCode };
+    const played = this.playSelected(filePath, { announce });
+    if (played && filePath && result.outcome === 'failure') {
+      // Tasks have no command line or terminal of their own; the label stands in for both
+      this.history.record({
+        timestamp: Date.now(),
+        commandLine: result.label,
+        exitCode: result.exitCode,
+        terminalName: `Task: ${result.label}`,
+        sound: path.basename(filePath),
+      });
+    }
+  }
+
+  isDebugEventEnabled(kind: DebugEventKind): boolean {
+    return this.getConfig().get<boolean>(`debug.${kind}Enabled`, kind !== 'breakpoint');
+  }
+
+  async setDebugEventEnabled(kind: DebugEventKind, enabled: boolean): Promise<void> {
+    await this.getConfig().update(`debug.${kind}Enabled`, enabled, vscode.ConfigurationTarget.Global);
+  }
+
+  handleDebugEvent(event: DebugEvent): void {
+    if (!this.isDebugEventEnabled(event.kind)) return;
+
+    const { slot, fallback } = DEBUG_EVENTS[event.kind];
+    const detail = event.detail ? ` (${event.detail})` : '';
+    this.outputChannel.appendLine(`Debug session "${event.sessionName}": ${DEBUG_EVENTS[event.kind].label.toLowerCase()}${detail}`);
+    const filePath = this.playSlot(slot, fallback);
+    // Breakpoint hits are expected stops, not failures
+    if (filePath && event.kind !== 'breakpoint') {
+      this.history.record({
+        timestamp: Date.now(),
+        commandLine: `Debug: ${event.sessionName} (${DEBUG_EVENTS[event.kind].label.toLowerCase()})`,
+        exitCode: event.exitCode,
+        terminalName: 'Debugger',
+        sound: path.basename(filePath),
+      });
+    }
+  }
+
+  handleDiagnosticsChange(change: DiagnosticsChange): void {
+    this.outputChannel.appendLine(`Problems: ${change.previousErrors} → ${change.errors} errors`);
+    if (change.kind === 'regression') {
+      this.playSlot('diagnosticsRegression', 'failure');
+    } else {
+      this.playSlot('diagnosticsClean');
+    }
+  }
+
+  /** Notebook cells go through the same pipeline as commands, with exit code 1 standing in for a failed cell. */
+  handleNotebookResult(result: NotebookCellResult): void {
+    const cell = `cell ${result.cellIndex + 1}`;
+    const commandLine = `Notebook ${result.notebook}: ${cell}`;
+    if (result.outcome === 'failure') this.outputChannel.appendLine(`${commandLine} failed`);
+
+    const slot: SoundSlot = result.outcome === 'failure' ? 'notebookFailure' : 'notebookSuccess';
+    this.playOutcome({
+      outcome: result.outcome,
+      exitCode: result.outcome === 'failure' ? 1 : 0,
+      commandLine,
+      durationMs: result.durationMs,
+      source: `Notebook: ${result.notebook}`,
+      command: cell,
+      slot: this.getSelectedSoundName(slot) ? slot : undefined,
+    });
+  }
+
+  /** Plays a slot's sound, or the fallback slot's sound when the slot is empty. Returns the file if it played. */
+  private playSlot(slot: SoundSlot, fallback?: SoundSlot): string | undefined {
+    const useFallback = !this.getSelectedSoundName(slot) && fallback;
+    const filePath = this.resolveSelectedSound(useFallback ? fallback : slot);
+    return this.playSelected(filePath, { label: SOUND_SLOTS[slot].label }) ? filePath : undefined;
+  }
+
+  /**
+   * Applies `terminalSfx.playbackPolicy`. `terminal` is the terminal the event came from;
+   * events without one (tasks, debugger, ...) only consider window focus.
+   */
+  private isAllowedByFocusPolicy(terminal?: vscode.Terminal): boolean {
+    const policy = this.getConfig().get<string>('playbackPolicy', 'always');
+    const focused = vscode.window.state.focused;
+    switch (policy) {
+      case 'unfocused':
+        return !focused;
+      case 'terminalHidden':
+        return !focused || (terminal !== undefined && vscode.window.activeTerminal !== terminal);
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Plays the file unless disabled, snoozed, muted by policy/quiet hours, or debounced. Returns whether it played.
+   * For the announce sound, `announce` fills in the template; events without one speak `label` instead.
+   */
+  private playSelected(
+    filePath: string | undefined,
+    options: {
+      volume?: number;
+      terminal?: vscode.Terminal;
+      announce?: AnnounceContext & { outcome: CommandOutcome };
+      label?: string;
+    } = {}
+  ): boolean {
+    if (!this.isEnabled() || this.isSnoozed() || !filePath) return false;
+    if (!this.isAllowedByFocusPolicy(options.terminal)) return false;
+
+    let playbackVolume = options.volume ?? this.getConfig().get<number>('volume', 80);
+    let maxVolume: number | undefined;
+    if (this.isQuietTime()) {
+      if (this.getQuietHoursMode() === 'mute') return false;
+      // Also caps the loudness gain, which is applied on top of the volume
+      maxVolume = this.getConfig().get<number>('quietHours.volume', 20);
+      playbackVolume = Math.min(playbackVolume, maxVolume);
+    }
 
     const now = Date.now();
-    if (now - this.lastPlayTime < this.DEBOUNCE_MS) return;
+    if (now - this.lastPlayTime < this.DEBOUNCE_MS) return false;
     this.lastPlayTime = now;
 
-    const filePath = this.resolveSelectedSound();
-    if (!filePath) return;
+    if (filePath === ANNOUNCE_SOUND) {
+      const { announce } = options;
+      const text = announce ? renderAnnouncement(this.getAnnounceTemplate(announce.outcome), announce) : options.label;
+      return this.speak(text ?? 'Terminal Sound Effects', playbackVolume);
+    }
+    return playSound({
+      filePath,
+      volume: playbackVolume,
+      trim: this.getSoundTrim(this.getSoundKey(filePath)),
+      gain: this.getSoundGain(filePath),
+      maxVolume,
+    });
+  }
+
+  private getAnnounceTemplate(outcome: CommandOutcome): string {
+    return outcome === 'failure'
+      ? this.getConfig().get<string>('announce.failureTemplate', '{command} failed with exit code {exitCode}')
+      : this.getConfig().get<string>('announce.successTemplate', '{command} succeeded');
+  }
 
-    const volume = this.getConfig().get<number>('volume', 80);
-    playSound({ filePath, volume });
+  private speak(text: string, volume: number): boolean {
+    this.outputChannel.appendLine(`Announcing: "${text}"`);
+    const error = speak(text, volume, {
+      engine: this.getConfig().get<string>('announce.engine', 'auto'),
+      customCommand: this.getConfig().get<string>('announce.customCommand', ''),
+    });
+    if (error) this.outputChannel.appendLine(error);
+    return !error;
   }
 
-  async selectFileFromSystem(): Promise<void> {
+  /** Speaks the failure template filled in with a sample command, for previews. */
+  previewAnnouncement(): void {
+    const text = renderAnnouncement(this.getAnnounceTemplate('failure'), {
+      command: 'npm',
+      commandLine: 'npm test',
+      exitCode: 1,
+      terminal: 'bash',
+      durationMs: 12_000,
+    });
+    if (!this.speak(text, this.getConfig().get<number>('volume', 80))) {
+      vscode.window.showWarningMessage('No speech engine available. See the Terminal Sound Effects output for details.');
+    }
+  }
+
+  /** Copies a file into My Sounds and selects it for the slot. */
+  async selectFileFromSystem(slot: SoundSlot = 'failure'): Promise<void> {
     const uris = await vscode.window.showOpenDialog({
       canSelectMany: false,
       filters: { 'Audio Files': ['mp3', 'wav', 'ogg'] },
@@ -102,29 +977,45 @@ export class SfxManager implements vscode.Disposable {
         vscode.window.showErrorMessage('File too large (max 5MB).');
         return;
       }
-      await this.selectSound(filePath);
-      vscode.window.showInformationMessage(`Sound set to: ${path.basename(filePath)}`);
+      const sound = await this.userSounds.add(filePath, filePath);
+      await this.selectSound(userSoundName(sound.id), slot);
+      this.loudness.analyze(this.userSounds.getFilePath(sound));
+      vscode.window.showInformationMessage(`${SOUND_SLOTS[slot].label} sound set to: ${sound.label}`);
     }
   }
 
   private readonly MAX_FILE_BYTES = 5 * 1024 * 1024; // 5MB
 
+  /** Downloads an audio file into My Sounds. Returns its `user:<id>` sound name. */
   async downloadFromUrl(url: string): Promise<string> {
-    const ext = path.extname(new URL(url).pathname) || '.mp3';
-    const filename = `custom-${Date.now()}${ext}`;
-    const destPath = path.join(this.downloadDir, filename);
+    const pathname = new URL(url).pathname;
+    const name = path.basename(pathname, path.extname(pathname)) || 'downloaded-sound';
+    // Not an audio extension, so a download cut short is never picked up as a sound
+    const partPath = path.join(this.userSounds.dir, `download-${Date.now()}.part`);
 
+    const contentType = await this.download(url, partPath);
+    // Links like download.php?id=1 only reveal the format through the Content-Type
+    const ext = isAudioFile(pathname) || !Object.hasOwn(AUDIO_CONTENT_TYPES, contentType)
+      ? path.extname(pathname)
+      : AUDIO_CONTENT_TYPES[contentType];
+    const sound = await this.userSounds.add(partPath, url, { name: name + ext, move: true });
+    this.loudness.analyze(this.userSounds.getFilePath(sound));
+    return userSoundName(sound.id);
+  }
+
+  /** Downloads to `destPath`. Resolves with the response's media type, e.g. "audio/mpeg". */
+  private download(url: string, destPath: string): Promise<string> {
     return new Promise((resolve, reject) => {
       const client = url.startsWith('https') ? https : http;
       const file = fs.createWriteStream(destPath);
 
       client.get(url, (response) => {
         if (response.statusCode === 301 || response.statusCode === 302) {
+          // The next request reopens destPath for writing, so it isn't unlinked here
           file.close();
-          fs.unlink(destPath, () => {});
           const location = response.headers.location;
           if (location) {
-            this.downloadFromUrl(location).then(resolve).catch(reject);
+            this.download(new URL(location, url).toString(), destPath).then(resolve).catch(reject);
           } else {
             reject(new Error('Redirect with no location header'));
           }
@@ -138,6 +1029,16 @@ export class SfxManager implements vscode.Disposable {
           return;
         }
 
+        const contentType = (response.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+        // Error and landing pages come back as 200 too
+        if (/^(text\/|application\/(json|xml|xhtml))/.test(contentType)) {
+          response.destroy();
+          file.close();
+          fs.unlink(destPath, () => {});
+          reject(new Error(`The link points to a web page (${contentType}), not an audio file`));
+          return;
+        }
+
         let received = 0;
         response.on('data', (chunk: Buffer) => {
           received += chunk.length;
@@ -152,7 +1053,7 @@ export class SfxManager implements vscode.Disposable {
         response.pipe(file);
         file.on('finish', () => {
           file.close();
-          resolve(destPath);
+          resolve(contentType);
         });
       }).on('error', (err) => {
         file.close();
@@ -162,19 +1063,175 @@ export class SfxManager implements vscode.Disposable {
     });
   }
 
-  async selectSound(nameOrPath: string): Promise<void> {
-    await this.getConfig().update('selectedSound', nameOrPath, vscode.ConfigurationTarget.Global);
+  async selectSound(nameOrPath: string, slot: SoundSlot = 'failure'): Promise<void> {
+    await this.getConfig().update(SOUND_SLOTS[slot].setting, nameOrPath, vscode.ConfigurationTarget.Global);
   }
 
-  getSelectedSoundName(): string {
-    return this.getConfig().get<string>('selectedSound', '');
+  getSelectedSoundName(slot: SoundSlot = 'failure'): string {
+    return this.getConfig().get<string>(SOUND_SLOTS[slot].setting, '');
+  }
+
+  getSoundLabel(nameOrPath: string): string {
+    if (!nameOrPath) return 'None';
+    if (nameOrPath === ANNOUNCE_SOUND) return 'Spoken Announcement';
+    if (isPackSound(nameOrPath)) {
+      const found = this.packs.findSound(nameOrPath);
+      return found ? `${found.pack.label}: ${found.sound.label}` : nameOrPath.slice(nameOrPath.indexOf('/') + 1);
+    }
+    if (isUserSound(nameOrPath)) return this.userSounds.find(nameOrPath)?.label ?? nameOrPath.slice(nameOrPath.indexOf(':') + 1);
+    if (isSynthSound(nameOrPath)) return `Synth: ${this.findSynthPreset(nameOrPath)?.label ?? nameOrPath.slice(SYNTH_PREFIX.length)}`;
+    if (!this.isBuiltIn(nameOrPath)) return path.basename(nameOrPath);
+    return getBuiltInSoundLabel(this.builtInDir, nameOrPath);
   }
 
   isBuiltIn(name: string): boolean {
     return getBuiltInSoundNames(this.builtInDir).includes(name);
   }
 
+  /** Built-in presets followed by the user's own tones. */
+  getSynthPresets(): SynthPreset[] {
+    return [...BUILT_IN_SYNTHS, ...this.getCustomSynthPresets()];
+  }
+
+  getCustomSynthPresets(): SynthPreset[] {
+    return this.context.globalState.get<SynthPreset[]>(this.SYNTHS_KEY, []);
+  }
+
+  /** Looks up a `synth:<name>` sound. */
+  findSynthPreset(soundName: string): SynthPreset | undefined {
+    const name = soundName.slice(SYNTH_PREFIX.length);
+    return this.getSynthPresets().find((preset) => preset.name === name);
+  }
+
+  private resolveSynth(soundName: string): string | undefined {
+    const preset = this.findSynthPreset(soundName);
+    if (!preset) {
+      this.outputChannel.appendLine(`Synth preset not found: ${soundName}`);
+      return undefined;
+    }
+    try {
+      return getSynthFile(this.synthDir, preset);
+    } catch (err: any) {
+      this.outputChannel.appendLine(`Could not render synth preset "${preset.label}": ${err.message}`);
+      return undefined;
+    }
+  }
+
+  /** Saves a user tone, replacing one with the same name. Returns its `synth:<name>` sound name. */
+  async saveSynthPreset(preset: SynthPreset): Promise<string> {
+    // User tones can't shadow the built-in presets
+    const name = BUILT_IN_SYNTHS.some((p) => p.name === preset.name) ? `my-${preset.name}` : preset.name;
+    const presets = this.getCustomSynthPresets().filter((p) => p.name !== name);
+    await this.context.globalState.update(this.SYNTHS_KEY, [...presets, { ...preset, name }]);
+    return SYNTH_PREFIX + name;
+  }
+
+  async deleteSynthPreset(soundName: string): Promise<void> {
+    const name = soundName.slice(SYNTH_PREFIX.length);
+    await this.context.globalState.update(
+      this.SYNTHS_KEY,
+      this.getCustomSynthPresets().filter((p) => p.name !== name)
+    );
+    // Slots that used the deleted tone fall back like any other missing sound
+    await this.resetIfInvalid();
+  }
+
+  /** Renders and plays a preset from the library editor without saving it. */
+  previewSynthPreset(preset: SynthPreset): void {
+    try {
+      const filePath = getSynthFile(this.synthDir, preset);
+      playSound({ filePath, volume: this.getConfig().get<number>('volume', 80), gain: this.getSoundGain(filePath) });
+    } catch (err: any) {
+      vscode.window.showErrorMessage(`Could not render the tone: ${err.message}`);
+    }
+  }
+
+  /**
+   * Loudness correction for a resolved file: the user's override, else the analyzed gain
+   * when `terminalSfx.normalizeLoudness` is on. Files not analyzed yet are queued for analysis.
+   */
+  getSoundGain(filePath: string): number {
+    const override = this.getGainOverride(this.getSoundKey(filePath));
+    if (override !== undefined) return override;
+    if (!this.getConfig().get<boolean>('normalizeLoudness', true)) return 1;
+
+    const info = this.loudness.getInfo(filePath);
+    if (!info) this.loudness.analyze(filePath);
+    return info?.gain ?? 1;
+  }
+
+  /** The analyzed gain for a built-in name or file path, for display. */
+  getAnalyzedGain(nameOrPath: string): number | undefined {
+    const filePath = this.resolveSound(nameOrPath);
+    return filePath && filePath !== ANNOUNCE_SOUND ? this.loudness.getInfo(filePath)?.gain : undefined;
+  }
+
+  getGainOverride(nameOrPath: string): number | undefined {
+    return this.context.globalState.get<Record<string, number>>(this.GAINS_KEY, {})[nameOrPath];
+  }
+
+  /** Sets a manual gain for a built-in name or file path; undefined goes back to the analyzed gain. */
+  async setGainOverride(nameOrPath: string, gain: number | undefined): Promise<void> {
+    const overrides = { ...this.context.globalState.get<Record<string, number>>(this.GAINS_KEY, {}) };
+    if (gain === undefined) delete overrides[nameOrPath];
+    else overrides[nameOrPath] = gain;
+    await this.context.globalState.update(this.GAINS_KEY, overrides);
+  }
+
+  /** Maps a resolved file path back to the sound name or custom path it was selected by. */
+  private getSoundKey(filePath: string): string {
+    const packSound = this.packs.getSoundName(filePath) ?? this.userSounds.getSoundName(filePath);
+    if (packSound) return packSound;
+    if (path.dirname(filePath) === this.synthDir) {
+      const preset = this.getSynthPresets().find((p) => getSynthFileName(p) === path.basename(filePath));
+      return preset ? SYNTH_PREFIX + preset.name : filePath;
+    }
+    if (path.dirname(filePath) !== this.builtInDir) return filePath;
+    const name = path.basename(filePath, path.extname(filePath));
+    return this.isBuiltIn(name) ? name : filePath;
+  }
+
+  /** The user's trim for a sound, else the default from config.json or the sound pack manifest. */
+  getSoundTrim(nameOrPath: string): SoundTrim | undefined {
+    const overrides = this.context.globalState.get<Record<string, SoundTrim>>(this.TRIMS_KEY, {});
+    if (nameOrPath in overrides) return overrides[nameOrPath];
+    if (isPackSound(nameOrPath)) return this.packs.findSound(nameOrPath)?.sound.trim;
+    return this.isBuiltIn(nameOrPath) ? getBuiltInSoundTrim(this.builtInDir, nameOrPath) : undefined;
+  }
+
+  /** True if the user changed the trim; `resetSoundTrim` goes back to the default. */
+  hasCustomTrim(nameOrPath: string): boolean {
+    return nameOrPath in this.context.globalState.get<Record<string, SoundTrim>>(this.TRIMS_KEY, {});
+  }
+
+  async setSoundTrim(nameOrPath: string, trim: SoundTrim): Promise<void> {
+    const overrides = { ...this.context.globalState.get<Record<string, SoundTrim>>(this.TRIMS_KEY, {}) };
+    overrides[nameOrPath] = trim;
+    await this.context.globalState.update(this.TRIMS_KEY, overrides);
+  }
+
+  async resetSoundTrim(nameOrPath: string): Promise<void> {
+    const overrides = { ...this.context.globalState.get<Record<string, SoundTrim>>(this.TRIMS_KEY, {}) };
+    delete overrides[nameOrPath];
+    await this.context.globalState.update(this.TRIMS_KEY, overrides);
+  }
+
+  /** Carries trim and gain overrides over when a sound gets a new name. */
+  private async moveOverrides(from: string, to: string): Promise<void> {
+    const trim = this.context.globalState.get<Record<string, SoundTrim>>(this.TRIMS_KEY, {})[from];
+    if (trim) {
+      await this.setSoundTrim(to, trim);
+      await this.resetSoundTrim(from);
+    }
+    const gain = this.getGainOverride(from);
+    if (gain !== undefined) {
+      await this.setGainOverride(to, gain);
+      await this.setGainOverride(from, undefined);
+    }
+  }
+
   dispose(): void {
+    if (this.snoozeTimer) clearTimeout(this.snoozeTimer);
     this.disposables.forEach((d) => d.dispose());
   }
 }
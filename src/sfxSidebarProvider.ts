@@ -1,14 +1,22 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { SfxManager } from './sfxManager';
-import { getBuiltInSounds, getBuiltInSoundLabel, getBuiltInSoundFile } from './generateSounds';
+import { DEBUG_EVENTS, SfxManager, SOUND_SLOTS, SoundSlot, isSoundSlot } from './sfxManager';
+import { DebugEventKind } from './debugMonitor';
+import { ShellIntegrationWatcher } from './shellIntegrationWatcher';
+import { getBuiltInSounds, getBuiltInSoundFile } from './generateSounds';
+import { isPackSound, packSoundName } from './soundPacks';
+import { isUserSound, userSoundName } from './userSounds';
 import { playSound } from './audioPlayer';
 
 export class SfxSidebarProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = 'terminal-sfx.sidebar';
   private view?: vscode.WebviewView;
+  private activeSlot: SoundSlot = 'failure';
 
-  constructor(private readonly sfxManager: SfxManager) {}
+  constructor(
+    private readonly sfxManager: SfxManager,
+    private readonly shellIntegration: ShellIntegrationWatcher
+  ) {}
 
   resolveWebviewView(
     webviewView: vscode.WebviewView,
@@ -26,29 +34,68 @@ export class SfxSidebarProvider implements vscode.WebviewViewProvider {
           const soundPath = this.resolveSoundPath(message.soundName);
           if (soundPath) {
             const volume = this.sfxManager.getConfig().get<number>('volume', 80);
-            playSound({ filePath: soundPath, volume });
+            playSound({
+              filePath: soundPath,
+              volume,
+              trim: this.sfxManager.getSoundTrim(message.soundName),
+              gain: this.sfxManager.getSoundGain(soundPath),
+            });
           }
           break;
         }
+        case 'setSlot':
+          if (isSoundSlot(message.slot)) {
+            this.activeSlot = message.slot;
+            this.refresh();
+          }
+          break;
         case 'select':
-          await this.sfxManager.selectSound(message.soundName);
+          await this.sfxManager.selectSound(message.soundName, this.activeSlot);
+          this.refresh();
+          vscode.window.showInformationMessage(`${SOUND_SLOTS[this.activeSlot].label} sound set to: ${this.sfxManager.getSoundLabel(message.soundName)}`);
+          break;
+        case 'clear':
+          await this.sfxManager.selectSound('', this.activeSlot);
           this.refresh();
-          vscode.window.showInformationMessage(`Sound set to: ${getBuiltInSoundLabel(this.sfxManager.getBuiltInDir(), message.soundName)}`);
           break;
         case 'selectFile':
-          await this.sfxManager.selectFileFromSystem();
+          await this.sfxManager.selectFileFromSystem(this.activeSlot);
           this.refresh();
           break;
         case 'downloadUrl':
           try {
-            const filePath = await this.sfxManager.downloadFromUrl(message.url);
-            await this.sfxManager.selectSound(filePath);
+            const soundName = await this.sfxManager.downloadFromUrl(message.url);
+            await this.sfxManager.selectSound(soundName, this.activeSlot);
             this.refresh();
             vscode.window.showInformationMessage('Sound downloaded and selected!');
           } catch (err: any) {
             vscode.window.showErrorMessage(`Download failed: ${err.message}`);
           }
           break;
+        case 'renameUserSound':
+          await this.sfxManager.renameUserSound(message.soundName);
+          break;
+        case 'deleteUserSound':
+          await this.sfxManager.deleteUserSound(message.soundName);
+          break;
+        case 'setThreshold': {
+          const seconds = Number(message.seconds);
+          if (Number.isFinite(seconds) && seconds >= 0) {
+            await this.sfxManager.setLongCommandThreshold(seconds);
+          }
+          break;
+        }
+        case 'setDebugEvent':
+          if (Object.hasOwn(DEBUG_EVENTS, message.kind)) {
+            await this.sfxManager.setDebugEventEnabled(message.kind, !!message.enabled);
+          }
+          break;
+        case 'setStreak':
+          await this.sfxManager.setStreakEnabled(!!message.enabled);
+          break;
+        case 'explainShellIntegration':
+          vscode.commands.executeCommand('terminal-sfx.explainShellIntegration');
+          break;
         case 'toggle':
           await this.sfxManager.toggle();
           this.refresh();
@@ -65,6 +112,7 @@ export class SfxSidebarProvider implements vscode.WebviewViewProvider {
 
   private resolveSoundPath(name: string): string | undefined {
     if (path.isAbsolute(name)) return name;
+    if (isPackSound(name) || isUserSound(name)) return this.sfxManager.resolveSound(name);
     const file = getBuiltInSoundFile(this.sfxManager.getBuiltInDir(), name);
     if (file) return path.join(this.sfxManager.getBuiltInDir(), file);
     return undefined;
@@ -72,35 +120,87 @@ export class SfxSidebarProvider implements vscode.WebviewViewProvider {
 
   private getHtmlContent(_webview: vscode.Webview): string {
     const dir = this.sfxManager.getBuiltInDir();
-    const selectedSound = this.sfxManager.getSelectedSoundName();
+    const selectedSound = this.sfxManager.getSelectedSoundName(this.activeSlot);
     const builtIn = getBuiltInSounds(dir);
     const nonce = getNonce();
     const enabled = this.sfxManager.isEnabled();
-
-    const isCustom = selectedSound && !this.sfxManager.isBuiltIn(selectedSound);
-    const currentLabel = !selectedSound
-      ? 'None'
-      : isCustom
-        ? path.basename(selectedSound)
-        : getBuiltInSoundLabel(dir, selectedSound);
-
-    const soundCards = builtIn
-      .map(({ name, label, emoji }) => {
-        const isSelected = name === selectedSound;
-        return `
-        <div class="sound-card ${isSelected ? 'selected' : ''}">
-          <div class="sound-header">
-            <span class="sound-icon">${escapeHtml(emoji)}</span>
-            <span class="sound-name">${escapeHtml(label)}</span>
-          </div>
-          <div class="sound-actions">
-            <button class="btn secondary preview-btn" data-sound="${escapeHtml(name)}">&#9654;</button>
-            <button class="btn primary select-btn" data-sound="${escapeHtml(name)}"
-              ${isSelected ? 'disabled' : ''}>
-              ${isSelected ? '&#10003;' : 'Use'}
-            </button>
-          </div>
-        </div>`;
+    const currentLabel = this.sfxManager.getSoundLabel(selectedSound);
+
+    const threshold = this.sfxManager.getLongCommandThreshold();
+    const longSuccessLabel = this.sfxManager.getSoundLabel(this.sfxManager.getSelectedSoundName('longSuccess'));
+    const longFailureLabel = this.sfxManager.getSoundLabel(this.sfxManager.getSelectedSoundName('longFailure'));
+
+    const missingIntegration = this.shellIntegration.getMissingTerminals();
+    const integrationWarning = missingIntegration.length > 0
+      ? `<div class="warning-banner">
+           <span>&#9888; Shell integration is inactive in ${missingIntegration.map((t) => `"${escapeHtml(t.name)}"`).join(', ')}.
+             Failed commands there can't be detected.</span>
+           <button class="btn secondary" id="integration-btn">How to fix</button>
+         </div>`
+      : '';
+
+    const streakEnabled = this.sfxManager.isStreakEnabled();
+    const streak = this.sfxManager.getCurrentStreak();
+    const streakText = !streakEnabled
+      ? 'Off'
+      : streak && streak.count > 0
+        ? `${streak.count} failure${streak.count === 1 ? '' : 's'} in a row: ${escapeHtml(streak.label)}`
+        : 'No failures in a row';
+
+    const debugToggles = (Object.keys(DEBUG_EVENTS) as DebugEventKind[])
+      .map((kind) => `
+      <label class="setting-row">
+        <span>${escapeHtml(DEBUG_EVENTS[kind].label)}</span>
+        <input type="checkbox" class="debug-toggle" data-kind="${kind}" ${this.sfxManager.isDebugEventEnabled(kind) ? 'checked' : ''} />
+      </label>`)
+      .join('');
+
+    const slotOptions = (Object.keys(SOUND_SLOTS) as SoundSlot[])
+      .map((slot) => `<option value="${slot}" ${slot === this.activeSlot ? 'selected' : ''}>${escapeHtml(SOUND_SLOTS[slot].label)}</option>`)
+      .join('');
+
+    const renderCard = (name: string, label: string, emoji: string, extraActions = '') => {
+      const isSelected = name === selectedSound;
+      return `
+      <div class="sound-card ${isSelected ? 'selected' : ''}">
+        <div class="sound-header">
+          <span class="sound-icon">${escapeHtml(emoji)}</span>
+          <span class="sound-name">${escapeHtml(label)}</span>
+        </div>
+        <div class="sound-actions">
+          <button class="btn secondary preview-btn" data-sound="${escapeHtml(name)}">&#9654;</button>
+          <button class="btn primary select-btn" data-sound="${escapeHtml(name)}"
+            ${isSelected ? 'disabled' : ''}>
+            ${isSelected ? '&#10003;' : 'Use'}
+          </button>
+          ${extraActions}
+        </div>
+      </div>`;
+    };
+    const soundCards = builtIn.map(({ name, label, emoji }) => renderCard(name, label, emoji)).join('\n');
+
+    const userSounds = this.sfxManager.getUserSounds().getSounds();
+    const userCards = userSounds
+      .map((sound) => {
+        const soundName = escapeHtml(userSoundName(sound.id));
+        return renderCard(userSoundName(sound.id), sound.label, sound.emoji, `
+          <button class="btn secondary rename-btn" data-sound="${soundName}" title="Rename">&#9998;</button>
+          <button class="btn secondary delete-btn" data-sound="${soundName}" title="Delete">&#10005;</button>`);
+      })
+      .join('\n');
+    const userSection = userSounds.length > 0
+      ? `<div class="section-label">My Sounds</div>
+         <div class="sound-list">${userCards}</div>`
+      : '';
+
+    const packSections = this.sfxManager.getSoundPacks().getEnabledPacks()
+      .map((pack) => {
+        const cards = pack.sounds
+          .map(({ name, label, emoji }) => renderCard(packSoundName(pack.manifest.name, name), label, emoji))
+          .join('\n');
+        const title = pack.manifest.author ? `${pack.label} by ${pack.manifest.author}` : pack.label;
+        return `<div class="section-label">${escapeHtml(title)}</div>
+         <div class="sound-list">${cards}</div>`;
       })
       .join('\n');
 
@@ -140,6 +240,39 @@ export class SfxSidebarProvider implements vscode.WebviewViewProvider {
       margin-bottom: 14px;
     }
 
+    .current-badge .clear-btn {
+      margin-left: auto;
+      background: none;
+      border: none;
+      color: inherit;
+      cursor: pointer;
+      font-size: 1em;
+      opacity: 0.8;
+    }
+    .current-badge .clear-btn:hover { opacity: 1; }
+
+    .slot-row {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: 8px;
+      margin-bottom: 8px;
+    }
+
+    .slot-row .section-label { margin-bottom: 0; }
+
+    .slot-row select {
+      flex: 1;
+      min-width: 0;
+      background: var(--vscode-dropdown-background);
+      color: var(--vscode-dropdown-foreground);
+      border: 1px solid var(--vscode-dropdown-border, rgba(128,128,128,0.35));
+      padding: 3px 6px;
+      border-radius: 3px;
+      font-family: inherit;
+      font-size: 12px;
+    }
+
     .section-label {
       font-size: 0.75em;
       font-weight: 600;
@@ -284,6 +417,44 @@ export class SfxSidebarProvider implements vscode.WebviewViewProvider {
       margin: 12px 0;
     }
 
+    .settings-section {
+      border-top: 1px solid var(--vscode-widget-border, rgba(128,128,128,0.2));
+      padding-top: 12px;
+      margin-top: 12px;
+    }
+
+    .settings-section p {
+      font-size: 0.8em;
+      color: var(--vscode-descriptionForeground);
+      margin: 6px 0;
+    }
+
+    .setting-row {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: 8px;
+      font-size: 0.85em;
+      margin-bottom: 6px;
+    }
+
+    .settings-section .streak-status {
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+
+    .setting-row input[type="number"] {
+      width: 64px;
+      background: var(--vscode-input-background);
+      color: var(--vscode-input-foreground);
+      border: 1px solid var(--vscode-input-border, rgba(128,128,128,0.35));
+      padding: 2px 6px;
+      border-radius: 3px;
+      font-family: inherit;
+      font-size: 12px;
+    }
+
     .toggle-row {
       display: flex;
       align-items: center;
@@ -322,6 +493,20 @@ export class SfxSidebarProvider implements vscode.WebviewViewProvider {
       opacity: 0.4;
       pointer-events: none;
     }
+
+    .warning-banner {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      margin-bottom: 14px;
+      padding: 8px 10px;
+      font-size: 0.8em;
+      border: 1px solid var(--vscode-inputValidation-warningBorder, #b89500);
+      background: var(--vscode-inputValidation-warningBackground, rgba(184,149,0,0.15));
+      border-radius: 6px;
+    }
+
+    .warning-banner .btn { align-self: flex-start; }
   </style>
 </head>
 <body>
@@ -330,15 +515,27 @@ export class SfxSidebarProvider implements vscode.WebviewViewProvider {
     <button class="toggle-btn ${enabled ? 'on' : 'off'}" id="toggle-btn">${enabled ? 'On' : 'Off'}</button>
   </div>
 
-  <p class="subtitle">Plays a sound when a terminal command fails.</p>
+  ${integrationWarning}
+
+  <p class="subtitle">Plays a sound when a terminal command fails or succeeds.</p>
 
   <hr class="divider">
 
   <div class="${enabled ? '' : 'disabled-overlay'}">
-  <div class="current-badge">&#9835; ${escapeHtml(currentLabel)}</div>
+  <div class="slot-row">
+    <label class="section-label" for="slot-select">Sound for</label>
+    <select id="slot-select">${slotOptions}</select>
+  </div>
+  <div class="current-badge">&#9835; ${escapeHtml(currentLabel)}
+    ${selectedSound ? '<button class="clear-btn" id="clear-btn" title="Play nothing">&#10005;</button>' : ''}
+  </div>
 
   ${builtInSection}
 
+  ${userSection}
+
+  ${packSections}
+
   <div class="custom-section">
     <div class="section-label">Custom Sound</div>
     <button class="btn primary browse-btn" id="browse-btn">Browse Files...</button>
@@ -348,6 +545,29 @@ export class SfxSidebarProvider implements vscode.WebviewViewProvider {
       <button class="btn primary" id="url-btn">Go</button>
     </div>
   </div>
+
+  <div class="settings-section">
+    <div class="section-label">Long Commands</div>
+    <div class="setting-row">
+      <label for="threshold-input">Threshold (seconds, 0 = off)</label>
+      <input type="number" id="threshold-input" min="0" step="1" value="${threshold}" />
+    </div>
+    <p>Finished: ${escapeHtml(longSuccessLabel)} &middot; Failed: ${escapeHtml(longFailureLabel)}</p>
+  </div>
+
+  <div class="settings-section">
+    <div class="section-label">Failure Streak</div>
+    <label class="setting-row">
+      <span>Escalate repeated failures</span>
+      <input type="checkbox" id="streak-toggle" ${streakEnabled ? 'checked' : ''} />
+    </label>
+    <p class="streak-status">${streakText}</p>
+  </div>
+
+  <div class="settings-section">
+    <div class="section-label">Debugger</div>
+    ${debugToggles}
+  </div>
   </div>
 
   <script nonce="${nonce}">
@@ -357,6 +577,18 @@ export class SfxSidebarProvider implements vscode.WebviewViewProvider {
       vscode.postMessage({ command: 'toggle' });
     });
 
+    document.getElementById('integration-btn')?.addEventListener('click', () => {
+      vscode.postMessage({ command: 'explainShellIntegration' });
+    });
+
+    document.getElementById('slot-select').addEventListener('change', (e) => {
+      vscode.postMessage({ command: 'setSlot', slot: e.target.value });
+    });
+
+    document.getElementById('clear-btn')?.addEventListener('click', () => {
+      vscode.postMessage({ command: 'clear' });
+    });
+
     document.querySelectorAll('.preview-btn').forEach(btn => {
       btn.addEventListener('click', () => {
         vscode.postMessage({ command: 'preview', soundName: btn.dataset.sound });
@@ -369,6 +601,18 @@ export class SfxSidebarProvider implements vscode.WebviewViewProvider {
       });
     });
 
+    document.querySelectorAll('.rename-btn').forEach(btn => {
+      btn.addEventListener('click', () => {
+        vscode.postMessage({ command: 'renameUserSound', soundName: btn.dataset.sound });
+      });
+    });
+
+    document.querySelectorAll('.delete-btn').forEach(btn => {
+      btn.addEventListener('click', () => {
+        vscode.postMessage({ command: 'deleteUserSound', soundName: btn.dataset.sound });
+      });
+    });
+
     document.getElementById('browse-btn').addEventListener('click', () => {
       vscode.postMessage({ command: 'selectFile' });
     });
@@ -381,6 +625,20 @@ export class SfxSidebarProvider implements vscode.WebviewViewProvider {
     document.getElementById('url-input').addEventListener('keydown', (e) => {
       if (e.key === 'Enter') document.getElementById('url-btn').click();
     });
+
+    document.getElementById('threshold-input').addEventListener('change', (e) => {
+      vscode.postMessage({ command: 'setThreshold', seconds: e.target.value });
+    });
+
+    document.getElementById('streak-toggle').addEventListener('change', (e) => {
+      vscode.postMessage({ command: 'setStreak', enabled: e.target.checked });
+    });
+
+    document.querySelectorAll('.debug-toggle').forEach(box => {
+      box.addEventListener('change', () => {
+        vscode.postMessage({ command: 'setDebugEvent', kind: box.dataset.kind, enabled: box.checked });
+      });
+    });
   </script>
 </body>
 </html>`;
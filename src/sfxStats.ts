@@ -0,0 +1,323 @@
+import * as vscode from 'vscode';
+import { FailureHistory, FailureRecord } from './failureHistory';
+
+const DAYS_SHOWN = 14;
+const TOP_COUNT = 10;
+
+export class SfxStatsPanel {
+  public static currentPanel: SfxStatsPanel | undefined;
+  private static readonly viewType = 'terminalSfxStats';
+
+  private readonly panel: vscode.WebviewPanel;
+  private readonly history: FailureHistory;
+  private disposables: vscode.Disposable[] = [];
+
+  public static createOrShow(history: FailureHistory): void {
+    const column = vscode.window.activeTextEditor?.viewColumn;
+
+    if (SfxStatsPanel.currentPanel) {
+      SfxStatsPanel.currentPanel.panel.reveal(column);
+      SfxStatsPanel.currentPanel.updateContent();
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      SfxStatsPanel.viewType,
+      'Terminal Sound Effects Statistics',
+      column || vscode.ViewColumn.One,
+      { enableScripts: true }
+    );
+
+    SfxStatsPanel.currentPanel = new SfxStatsPanel(panel, history);
+  }
+
+  private constructor(panel: vscode.WebviewPanel, history: FailureHistory) {
+    this.panel = panel;
+    this.history = history;
+
+    this.updateContent();
+
+    this.history.onDidChange(() => this.updateContent(), null, this.disposables);
+
+    this.panel.webview.onDidReceiveMessage(
+      async (message) => {
+        switch (message.command) {
+          case 'export':
+            await this.history.promptExport();
+            break;
+          case 'clear':
+            await this.history.promptClear();
+            break;
+        }
+      },
+      null,
+      this.disposables
+    );
+
+    this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+  }
+
+  private updateContent(): void {
+    this.panel.webview.html = this.getHtmlContent();
+  }
+
+  private getHtmlContent(): string {
+    const records = this.history.getRecords();
+    const nonce = getNonce();
+
+    const perDay = countPerDay(records);
+    const maxPerDay = Math.max(1, ...perDay.map((d) => d.count));
+    const dayBars = perDay
+      .map(({ label, count }) => `
+        <div class="bar-row">
+          <span class="bar-label">${escapeHtml(label)}</span>
+          <div class="bar-track"><div class="bar" data-width="${Math.round((count / maxPerDay) * 100)}"></div></div>
+          <span class="bar-count">${count}</span>
+        </div>`)
+      .join('\n');
+
+    const topCommands = renderTable(
+      topCounts(records.map((r) => r.commandLine || '(unknown command)')),
+      'Command'
+    );
+    const topExitCodes = renderTable(topCounts(records.flatMap((r) => (r.exitCode === undefined ? [] : [String(r.exitCode)]))), 'Exit code');
+
+    const body = records.length === 0
+      ? `<p class="empty-msg">No failures recorded yet. Failures that play a sound show up here.</p>`
+      : `<div class="summary">${records.length} failures recorded since ${escapeHtml(new Date(records[0].timestamp).toLocaleDateString())}</div>
+
+  <h2>Failures per day (last ${DAYS_SHOWN} days)</h2>
+  <div class="chart">${dayBars}</div>
+
+  <div class="columns">
+    <div>
+      <h2>Most failed commands</h2>
+      ${topCommands}
+    </div>
+    <div>
+      <h2>Most common exit codes</h2>
+      ${topExitCodes}
+    </div>
+  </div>`;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy"
+    content="default-src 'none'; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style nonce="${nonce}">
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+
+    body {
+      font-family: var(--vscode-font-family);
+      color: var(--vscode-foreground);
+      background: var(--vscode-editor-background);
+      padding: 24px;
+      line-height: 1.5;
+    }
+
+    .header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      margin-bottom: 24px;
+      flex-wrap: wrap;
+      gap: 12px;
+    }
+
+    h1 { font-size: 1.5em; font-weight: 600; }
+
+    h2 {
+      font-size: 1.1em;
+      font-weight: 600;
+      margin-bottom: 14px;
+      color: var(--vscode-foreground);
+    }
+
+    .summary {
+      font-size: 0.9em;
+      color: var(--vscode-descriptionForeground);
+      margin-bottom: 20px;
+    }
+
+    .empty-msg {
+      font-size: 0.9em;
+      color: var(--vscode-descriptionForeground);
+      font-style: italic;
+    }
+
+    .actions { display: flex; gap: 8px; }
+
+    .btn {
+      border: none;
+      padding: 5px 14px;
+      border-radius: 4px;
+      cursor: pointer;
+      font-size: 12px;
+      font-family: inherit;
+    }
+
+    .btn.primary {
+      background: var(--vscode-button-background);
+      color: var(--vscode-button-foreground);
+    }
+    .btn.primary:hover { background: var(--vscode-button-hoverBackground); }
+
+    .btn.secondary {
+      background: var(--vscode-button-secondaryBackground);
+      color: var(--vscode-button-secondaryForeground);
+    }
+    .btn.secondary:hover { background: var(--vscode-button-secondaryHoverBackground); }
+
+    .btn:disabled { opacity: 0.55; cursor: default; }
+
+    .chart {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+      margin-bottom: 28px;
+    }
+
+    .bar-row {
+      display: grid;
+      grid-template-columns: 90px 1fr 40px;
+      align-items: center;
+      gap: 10px;
+      font-size: 0.85em;
+    }
+
+    .bar-label { color: var(--vscode-descriptionForeground); }
+
+    .bar-track {
+      height: 12px;
+      background: color-mix(in srgb, var(--vscode-focusBorder) 10%, transparent);
+      border-radius: 3px;
+      overflow: hidden;
+    }
+
+    .bar {
+      width: 0;
+      height: 100%;
+      background: var(--vscode-errorForeground, #f44);
+      border-radius: 3px;
+    }
+
+    .bar-count { text-align: right; font-variant-numeric: tabular-nums; }
+
+    .columns {
+      display: grid;
+      grid-template-columns: repeat(auto-fit, minmax(280px, 1fr));
+      gap: 28px;
+    }
+
+    table {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 0.85em;
+    }
+
+    th, td {
+      text-align: left;
+      padding: 6px 8px;
+      border-bottom: 1px solid var(--vscode-widget-border, rgba(128,128,128,0.2));
+    }
+
+    th { color: var(--vscode-descriptionForeground); font-weight: 500; }
+
+    td.key {
+      font-family: var(--vscode-editor-font-family);
+      word-break: break-all;
+    }
+
+    td.count { text-align: right; width: 60px; font-variant-numeric: tabular-nums; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <h1>Terminal Sound Effects Statistics</h1>
+    <div class="actions">
+      <button class="btn secondary" id="export-btn" ${records.length === 0 ? 'disabled' : ''}>Export...</button>
+      <button class="btn primary" id="clear-btn" ${records.length === 0 ? 'disabled' : ''}>Clear History</button>
+    </div>
+  </div>
+
+  ${body}
+
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+
+    // The CSP blocks inline style attributes, so bar widths are applied from script
+    document.querySelectorAll('.bar').forEach(bar => {
+      bar.style.width = bar.dataset.width + '%';
+    });
+
+    document.getElementById('export-btn').addEventListener('click', () => {
+      vscode.postMessage({ command: 'export' });
+    });
+
+    document.getElementById('clear-btn').addEventListener('click', () => {
+      vscode.postMessage({ command: 'clear' });
+    });
+  </script>
+</body>
+</html>`;
+  }
+
+  private dispose(): void {
+    SfxStatsPanel.currentPanel = undefined;
+    this.panel.dispose();
+    this.disposables.forEach((d) => d.dispose());
+  }
+}
+
+function countPerDay(records: readonly FailureRecord[]): Array<{ label: string; count: number }> {
+  const days: Array<{ key: string; label: string; count: number }> = [];
+  const today = new Date();
+  for (let i = DAYS_SHOWN - 1; i >= 0; i--) {
+    const day = new Date(today.getFullYear(), today.getMonth(), today.getDate() - i);
+    days.push({
+      key: day.toDateString(),
+      label: day.toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+      count: 0,
+    });
+  }
+
+  const byKey = new Map(days.map((d) => [d.key, d]));
+  for (const record of records) {
+    const day = byKey.get(new Date(record.timestamp).toDateString());
+    if (day) day.count++;
+  }
+  return days;
+}
+
+function topCounts(values: string[]): Array<[string, number]> {
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, TOP_COUNT);
+}
+
+function renderTable(rows: Array<[string, number]>, keyHeader: string): string {
+  const body = rows
+    .map(([key, count]) => `<tr><td class="key">${escapeHtml(key)}</td><td class="count">${count}</td></tr>`)
+    .join('');
+  return `<table><thead><tr><th>${escapeHtml(keyHeader)}</th><th class="count">Failures</th></tr></thead><tbody>${body}</tbody></table>`;
+}
+
+function getNonce(): string {
+  let text = '';
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  for (let i = 0; i < 32; i++) {
+    text += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return text;
+}
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,152 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+// How long a new terminal gets to activate shell integration before it's considered missing
+const ACTIVATION_TIMEOUT_MS = 10_000;
+
+const DOCS_URL = 'https://code.visualstudio.com/docs/terminal/shell-integration';
+
+interface ShellSetup {
+  label: string;
+  profileFile: string;
+  snippet: string;
+}
+
+// Manual installation snippets from the VS Code shell integration docs
+const SHELL_SETUP: Record<string, ShellSetup> = {
+  bash: {
+    label: 'Bash',
+    profileFile: '~/.bashrc',
+    snippet: '[[ "$TERM_PROGRAM" == "vscode" ]] && . "$(code --locate-shell-integration-path bash)"',
+  },
+  zsh: {
+    label: 'Zsh',
+    profileFile: '~/.zshrc',
+    snippet: '[[ "$TERM_PROGRAM" == "vscode" ]] && . "$(code --locate-shell-integration-path zsh)"',
+  },
+  fish: {
+    label: 'fish',
+    profileFile: '~/.config/fish/config.fish',
+    snippet: 'string match -q "$TERM_PROGRAM" "vscode"\nand . (code --locate-shell-integration-path fish)',
+  },
+  pwsh: {
+    label: 'PowerShell',
+    profileFile: '$Profile',
+    snippet: 'if ($env:TERM_PROGRAM -eq "vscode") { . "$(code --locate-shell-integration-path pwsh)" }',
+  },
+};
+
+/**
+ * Tracks which terminals never activated shell integration. Without it VS Code can't report
+ * exit codes, so TerminalMonitor never hears about those terminals' commands.
+ */
+export class ShellIntegrationWatcher implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+  private timers = new Map<vscode.Terminal, ReturnType<typeof setTimeout>>();
+  private timedOut = new Set<vscode.Terminal>();
+  private missing = new Set<vscode.Terminal>();
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor(private readonly log: (message: string) => void) {
+    vscode.window.terminals.forEach((terminal) => this.track(terminal));
+
+    this.disposables.push(
+      this.changeEmitter,
+      vscode.window.onDidOpenTerminal((terminal) => this.track(terminal)),
+      vscode.window.onDidChangeTerminalShellIntegration(({ terminal }) => this.forget(terminal)),
+      vscode.window.onDidChangeTerminalState((terminal) => this.check(terminal)),
+      vscode.window.onDidCloseTerminal((terminal) => this.forget(terminal))
+    );
+  }
+
+  getMissingTerminals(): vscode.Terminal[] {
+    return [...this.missing];
+  }
+
+  private track(terminal: vscode.Terminal): void {
+    // Extension-owned pseudoterminals never run a shell
+    if (terminal.shellIntegration || 'pty' in terminal.creationOptions) return;
+
+    this.timers.set(terminal, setTimeout(() => {
+      this.timers.delete(terminal);
+      if (terminal.shellIntegration) return;
+      this.timedOut.add(terminal);
+      this.check(terminal);
+    }, ACTIVATION_TIMEOUT_MS));
+  }
+
+  // Only warn about terminals the user actually typed in, so task and
+  // background terminals that never run shell commands stay quiet
+  private check(terminal: vscode.Terminal): void {
+    if (!this.timedOut.has(terminal) || !terminal.state.isInteractedWith || this.missing.has(terminal)) return;
+    this.missing.add(terminal);
+    this.log(
+      `Warning: shell integration is not active in terminal "${terminal.name}" (${detectShell(terminal)}). ` +
+      'Command results from this terminal cannot be detected. Run "Terminal Sound Effects: Fix Shell Integration" for help.'
+    );
+    this.changeEmitter.fire();
+  }
+
+  private forget(terminal: vscode.Terminal): void {
+    const timer = this.timers.get(terminal);
+    if (timer) clearTimeout(timer);
+    this.timers.delete(terminal);
+    this.timedOut.delete(terminal);
+    if (this.missing.delete(terminal)) this.changeEmitter.fire();
+  }
+
+  dispose(): void {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.disposables.forEach((d) => d.dispose());
+  }
+}
+
+function detectShell(terminal: vscode.Terminal | undefined): string {
+  const creationOptions = terminal?.creationOptions;
+  const shellPath = (creationOptions && 'shellPath' in creationOptions && creationOptions.shellPath) || vscode.env.shell;
+  const name = path.basename(shellPath).replace(/\.exe$/i, '').toLowerCase();
+  return name === 'powershell' ? 'pwsh' : name;
+}
+
+/** Explains why sounds don't play in a terminal and how to enable shell integration for its shell. */
+export async function explainShellIntegration(terminal: vscode.Terminal | undefined, log: (message: string) => void): Promise<void> {
+  const shell = detectShell(terminal);
+  const setup = SHELL_SETUP[shell];
+  const settingEnabled = vscode.workspace.getConfiguration('terminal.integrated').get<boolean>('shellIntegration.enabled', true);
+
+  const steps: string[] = [];
+  if (!settingEnabled) {
+    steps.push('Shell integration is turned off. Enable the "terminal.integrated.shellIntegration.enabled" setting and open a new terminal.');
+  }
+  if (setup) {
+    steps.push(
+      `${setup.label} is supported. If integration still doesn't activate (custom prompts, plugins, or remote shells can ` +
+      `block automatic injection), add this to ${setup.profileFile} and open a new terminal:\n\n${setup.snippet}`
+    );
+  } else {
+    steps.push(`"${shell}" doesn't support shell integration. Switch the terminal to bash, zsh, fish, or PowerShell.`);
+  }
+
+  const detail = steps.join('\n\n');
+  log(`Shell integration help for ${terminal ? `terminal "${terminal.name}"` : 'the default shell'} (${shell}):\n${detail}`);
+
+  const actions = [
+    ...(setup ? ['Copy Snippet'] : []),
+    ...(!settingEnabled ? ['Open Setting'] : []),
+    'Learn More',
+  ];
+  const choice = await vscode.window.showInformationMessage(
+    'Terminal Sound Effects needs shell integration to detect command results.',
+    { modal: true, detail },
+    ...actions
+  );
+
+  if (choice === 'Copy Snippet' && setup) {
+    await vscode.env.clipboard.writeText(setup.snippet);
+  } else if (choice === 'Open Setting') {
+    await vscode.commands.executeCommand('workbench.action.openSettings', 'terminal.integrated.shellIntegration.enabled');
+  } else if (choice === 'Learn More') {
+    await vscode.env.openExternal(vscode.Uri.parse(DOCS_URL));
+  }
+}
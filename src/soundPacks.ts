@@ -0,0 +1,320 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as zlib from 'zlib';
+import { SoundConfig, SoundEntry, SoundTrim, scanSoundFolder } from './generateSounds';
+
+/**
+ * `soundpack.json`: the media/sounds/config.json schema under `sounds`, plus pack metadata
+ * and the slots the author suggests each sound for (slot id → sound name in the pack).
+ */
+export interface SoundPackManifest {
+  name: string;
+  displayName?: string;
+  author?: string;
+  version?: string;
+  description?: string;
+  sounds?: SoundConfig;
+  mappings?: Record<string, string>;
+}
+
+export interface SoundPack {
+  manifest: SoundPackManifest;
+  label: string;
+  dir: string;
+  sounds: SoundEntry[];
+  enabled: boolean;
+}
+
+/** Prefix of pack sound names: `pack:<pack>/<sound>`. */
+export const PACK_PREFIX = 'pack:';
+export const MANIFEST_FILE = 'soundpack.json';
+
+const DISABLED_KEY = 'terminalSfx.disabledPacks';
+const MAX_PACK_BYTES = 50 * 1024 * 1024;
+
+export function isPackSound(name: string): boolean {
+  return name.startsWith(PACK_PREFIX);
+}
+
+export function packSoundName(pack: string, sound: string): string {
+  return `${PACK_PREFIX}${pack}/${sound}`;
+}
+
+/** Installs, lists and toggles sound packs, which live under globalStorageUri/packs. */
+export class SoundPackManager implements vscode.Disposable {
+  private readonly packsDir: string;
+  private packs: SoundPack[] = [];
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor(
+    storageDir: string,
+    private readonly state: vscode.Memento,
+    private readonly log: (message: string) => void
+  ) {
+    this.packsDir = path.join(storageDir, 'packs');
+  }
+
+  async load(): Promise<void> {
+    await fs.promises.mkdir(this.packsDir, { recursive: true });
+    const disabled = this.state.get<string[]>(DISABLED_KEY, []);
+    const packs: SoundPack[] = [];
+
+    for (const entry of await fs.promises.readdir(this.packsDir, { withFileTypes: true })) {
+      if (!entry.isDirectory()) continue;
+      const dir = path.join(this.packsDir, entry.name);
+      try {
+        const manifest = await readManifest(dir, this.log);
+        packs.push({
+          manifest,
+          label: manifest.displayName ?? manifest.name,
+          dir,
+          sounds: scanSoundFolder(dir, manifest.sounds ?? {}),
+          enabled: !disabled.includes(manifest.name),
+        });
+      } catch (err: any) {
+        this.log(`Skipping sound pack in ${dir}: ${err.message}`);
+      }
+    }
+
+    this.packs = packs.sort((a, b) => a.label.localeCompare(b.label));
+    this.changeEmitter.fire();
+  }
+
+  getPacks(): readonly SoundPack[] {
+    return this.packs;
+  }
+
+  getEnabledPacks(): SoundPack[] {
+    return this.packs.filter((pack) => pack.enabled);
+  }
+
+  /** Finds an enabled pack's sound by its `pack:<pack>/<sound>` name. */
+  findSound(soundName: string): { pack: SoundPack; sound: SoundEntry } | undefined {
+    const [packName, name] = soundName.slice(PACK_PREFIX.length).split('/');
+    const pack = this.getEnabledPacks().find((p) => p.manifest.name === packName);
+    const sound = pack?.sounds.find((s) => s.name === name);
+    return pack && sound ? { pack, sound } : undefined;
+  }
+
+  /** Maps a file inside an installed pack back to its `pack:<pack>/<sound>` name. */
+  getSoundName(filePath: string): string | undefined {
+    const pack = this.packs.find((p) => path.dirname(filePath) === p.dir);
+    const sound = pack?.sounds.find((s) => path.join(pack.dir, s.file) === filePath);
+    return pack && sound ? packSoundName(pack.manifest.name, sound.name) : undefined;
+  }
+
+  /**
+   * Copies a pack folder or .zip into storage, replacing an installed pack of the same name
+   * after confirmation. Returns the installed pack, or undefined if the user cancelled.
+   */
+  async install(source: string): Promise<SoundPack | undefined> {
+    let extracted: string | undefined;
+    try {
+      let root = source;
+      if ((await fs.promises.stat(source)).isFile()) {
+        extracted = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'terminal-sfx-pack-'));
+        await extractZip(await fs.promises.readFile(source), extracted);
+        root = await findManifestDir(extracted);
+      }
+
+      const manifest = await readManifest(root, this.log);
+      if (scanSoundFolder(root, {}).length === 0) {
+        throw new Error('The pack contains no MP3/WAV/OGG files next to its manifest');
+      }
+
+      const dest = path.join(this.packsDir, manifest.name);
+      if (fs.existsSync(dest)) {
+        const choice = await vscode.window.showWarningMessage(
+          `Sound pack "${manifest.displayName ?? manifest.name}" is already installed. Replace it?`,
+          { modal: true },
+          'Replace'
+        );
+        if (choice !== 'Replace') return undefined;
+        await fs.promises.rm(dest, { recursive: true, force: true });
+      }
+
+      await fs.promises.cp(root, dest, { recursive: true });
+      this.log(`Installed sound pack "${manifest.name}" from ${source}`);
+      await this.load();
+      return this.packs.find((p) => p.manifest.name === manifest.name);
+    } finally {
+      if (extracted) await fs.promises.rm(extracted, { recursive: true, force: true });
+    }
+  }
+
+  async uninstall(name: string): Promise<void> {
+    await fs.promises.rm(path.join(this.packsDir, name), { recursive: true, force: true });
+    await this.setEnabled(name, true); // forget the disabled flag too
+    this.log(`Uninstalled sound pack "${name}"`);
+  }
+
+  async setEnabled(name: string, enabled: boolean): Promise<void> {
+    const disabled = this.state.get<string[]>(DISABLED_KEY, []).filter((n) => n !== name);
+    await this.state.update(DISABLED_KEY, enabled ? disabled : [...disabled, name]);
+    await this.load();
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
+
+/**
+ * Reads and type-checks a manifest. A bad `name` rejects the pack; other fields of the wrong
+ * type are dropped with a log line, since they end up in webview HTML and settings.
+ */
+async function readManifest(dir: string, log: (message: string) => void): Promise<SoundPackManifest> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.promises.readFile(path.join(dir, MANIFEST_FILE), 'utf-8'));
+  } catch (err: any) {
+    throw new Error(err.code === 'ENOENT' ? `${MANIFEST_FILE} not found` : `Invalid ${MANIFEST_FILE}: ${err.message}`);
+  }
+  const data = isRecord(raw) ? raw : {};
+  if (typeof data.name !== 'string' || !/^[a-z0-9][a-z0-9._-]*$/i.test(data.name)) {
+    throw new Error(`${MANIFEST_FILE} needs a "name" made of letters, digits, dots, dashes or underscores`);
+  }
+
+  const name = data.name;
+  const drop = (field: string) => log(`Sound pack "${name}": ignoring invalid ${field} in ${MANIFEST_FILE}`);
+  const text = (field: string) => {
+    const value = data[field];
+    if (value === undefined || typeof value === 'string') return value;
+    drop(`"${field}"`);
+    return undefined;
+  };
+  const manifest: SoundPackManifest = {
+    name,
+    displayName: text('displayName'),
+    author: text('author'),
+    version: text('version'),
+    description: text('description'),
+  };
+
+  if (data.sounds !== undefined && !isRecord(data.sounds)) {
+    drop('"sounds"');
+  } else if (data.sounds) {
+    manifest.sounds = {};
+    for (const [sound, entry] of Object.entries(data.sounds)) {
+      if (!isRecord(entry)) {
+        drop(`sounds.${sound}`);
+        continue;
+      }
+      const config: SoundConfig[string] = {};
+      for (const key of ['label', 'emoji'] as const) {
+        if (typeof entry[key] === 'string') config[key] = entry[key] as string;
+        else if (entry[key] !== undefined) drop(`sounds.${sound}.${key}`);
+      }
+      if (entry.trim !== undefined) {
+        const trim = parseTrim(entry.trim);
+        if (trim) config.trim = trim;
+        else drop(`sounds.${sound}.trim`);
+      }
+      manifest.sounds[sound] = config;
+    }
+  }
+
+  if (data.mappings !== undefined && !isRecord(data.mappings)) {
+    drop('"mappings"');
+  } else if (data.mappings) {
+    manifest.mappings = {};
+    for (const [slot, sound] of Object.entries(data.mappings)) {
+      if (typeof sound === 'string') manifest.mappings[slot] = sound;
+      else drop(`mappings.${slot}`);
+    }
+  }
+  return manifest;
+}
+
+/** A trim with only non-negative numbers (in seconds), or undefined if anything else is in it. */
+function parseTrim(value: unknown): SoundTrim | undefined {
+  if (!isRecord(value)) return undefined;
+  const trim: SoundTrim = {};
+  for (const key of ['start', 'maxDuration', 'fadeOut'] as const) {
+    const seconds = value[key];
+    if (seconds === undefined) continue;
+    if (typeof seconds !== 'number' || !Number.isFinite(seconds) || seconds < 0) return undefined;
+    trim[key] = seconds;
+  }
+  return trim;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/** The shallowest folder containing a manifest, since zips often wrap everything in one folder. */
+async function findManifestDir(root: string): Promise<string> {
+  let level = [root];
+  while (level.length > 0) {
+    const found = level.find((dir) => fs.existsSync(path.join(dir, MANIFEST_FILE)));
+    if (found) return found;
+    const next: string[] = [];
+    for (const dir of level) {
+      for (const entry of await fs.promises.readdir(dir, { withFileTypes: true })) {
+        if (entry.isDirectory()) next.push(path.join(dir, entry.name));
+      }
+    }
+    level = next;
+  }
+  throw new Error(`${MANIFEST_FILE} not found in the zip`);
+}
+
+/** Extracts stored and deflated entries of a zip file. Entries that would land outside `dest` are rejected. */
+async function extractZip(zip: Buffer, dest: string): Promise<void> {
+  // The end of central directory record is in the last 64 KiB + 22 bytes
+  let eocd = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 65557); i--) {
+    if (zip.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a zip file');
+
+  const count = zip.readUInt16LE(eocd + 10);
+  let offset = zip.readUInt32LE(eocd + 16);
+  let total = 0;
+
+  for (let n = 0; n < count; n++) {
+    if (zip.readUInt32LE(offset) !== 0x02014b50) throw new Error('Corrupt zip central directory');
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const size = zip.readUInt32LE(offset + 24);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString('utf-8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const target = path.resolve(dest, name);
+    if (!target.startsWith(path.resolve(dest) + path.sep)) throw new Error(`Unsafe path in zip: ${name}`);
+    if (name.endsWith('/')) continue;
+
+    if (total + size > MAX_PACK_BYTES) throw new Error(`Pack is larger than ${MAX_PACK_BYTES / 1024 / 1024}MB`);
+
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const data = zip.subarray(dataStart, dataStart + compressedSize);
+    let content: Buffer;
+    try {
+      if (method === 0) content = data;
+      // The declared size can't be trusted, so inflating stops there instead of filling memory
+      else if (method === 8) content = zlib.inflateRawSync(data, { maxOutputLength: Math.max(1, size) });
+      else throw new Error(`Unsupported compression in zip entry ${name}`);
+    } catch (err: any) {
+      if (err.code === 'ERR_BUFFER_TOO_LARGE') throw new Error(`Zip entry ${name} is larger than it declares`);
+      throw err;
+    }
+    if (content.length !== size) throw new Error(`Zip entry ${name} doesn't match its declared size`);
+
+    total += content.length;
+    if (total > MAX_PACK_BYTES) throw new Error(`Pack is larger than ${MAX_PACK_BYTES / 1024 / 1024}MB`);
+
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.writeFile(target, content);
+  }
+}
@@ -0,0 +1,178 @@
+// Renders short tones (beeps, chimes, buzzers, arpeggios) from parametric presets.
+// Rendered WAVs are cached by their parameters, so editing a preset renders a new file.
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type Waveform = 'sine' | 'square' | 'triangle' | 'sawtooth' | 'noise';
+
+export interface SynthPreset {
+  name: string; // selected as `synth:<name>`
+  label: string;
+  emoji?: string;
+  waveform: Waveform;
+  notes: number[]; // frequencies in Hz, played one after another
+  noteMs: number;
+  gapMs?: number; // silence between notes
+  attackMs?: number;
+  decayMs?: number; // exponential decay time constant; omit for a flat sustain
+  releaseMs?: number;
+}
+
+/** Prefix that marks a sound name as a synth preset. */
+export const SYNTH_PREFIX = 'synth:';
+
+export const WAVEFORMS: Waveform[] = ['sine', 'square', 'triangle', 'sawtooth', 'noise'];
+
+export const BUILT_IN_SYNTHS: SynthPreset[] = [
+  { name: 'beep', label: 'Beep', emoji: '\u{1F514}', waveform: 'sine', notes: [880], noteMs: 180, attackMs: 5, releaseMs: 40 },
+  {
+    name: 'double-beep', label: 'Double Beep', emoji: '\u{1F514}', waveform: 'square',
+    notes: [988, 988], noteMs: 90, gapMs: 60, attackMs: 3, releaseMs: 20,
+  },
+  {
+    name: 'chime', label: 'Chime', emoji: '\u{1F390}', waveform: 'sine',
+    notes: [1319, 1047], noteMs: 450, attackMs: 4, decayMs: 180, releaseMs: 60,
+  },
+  { name: 'buzzer', label: 'Buzzer', emoji: '\u{1F6A8}', waveform: 'sawtooth', notes: [110], noteMs: 600, attackMs: 10, releaseMs: 80 },
+  {
+    name: 'arpeggio-up', label: 'Arpeggio Up', emoji: '\u{1F3B9}', waveform: 'triangle',
+    notes: [523, 659, 784, 1047], noteMs: 110, attackMs: 4, releaseMs: 30,
+  },
+  {
+    name: 'arpeggio-down', label: 'Sad Arpeggio', emoji: '\u{1F3B9}', waveform: 'triangle',
+    notes: [784, 622, 523, 392], noteMs: 160, attackMs: 4, decayMs: 300, releaseMs: 40,
+  },
+];
+
+const SAMPLE_RATE = 44100;
+const PEAK = 0.6 * 32767; // headroom so overlapping harmonics don't clip
+const MAX_TOTAL_MS = 5000;
+const MAX_NOTES = 16;
+
+export function isSynthSound(name: string): boolean {
+  return name.startsWith(SYNTH_PREFIX);
+}
+
+/** Renders a preset to a 16-bit mono WAV. */
+export function renderSynth(preset: SynthPreset): Buffer {
+  const rate = SAMPLE_RATE;
+  const noteFrames = Math.round((preset.noteMs / 1000) * rate);
+  const gapFrames = Math.round(((preset.gapMs ?? 0) / 1000) * rate);
+  const attackFrames = Math.round(((preset.attackMs ?? 0) / 1000) * rate);
+  const releaseFrames = Math.min(noteFrames, Math.round(((preset.releaseMs ?? 0) / 1000) * rate));
+  const decayFrames = preset.decayMs ? (preset.decayMs / 1000) * rate : 0;
+  const totalFrames = preset.notes.length * (noteFrames + gapFrames) - gapFrames;
+
+  const dataLength = Math.max(0, totalFrames) * 2;
+  const out = Buffer.alloc(44 + dataLength);
+  writeWavHeader(out, dataLength, rate);
+
+  preset.notes.forEach((frequency, index) => {
+    const offset = index * (noteFrames + gapFrames);
+    for (let i = 0; i < noteFrames; i++) {
+      let envelope = 1;
+      if (i < attackFrames) envelope *= i / attackFrames;
+      if (decayFrames) envelope *= Math.exp(-i / decayFrames);
+      if (noteFrames - i <= releaseFrames) envelope *= (noteFrames - i) / releaseFrames;
+
+      const phase = ((frequency * i) / rate) % 1;
+      const sample = oscillate(preset.waveform, phase) * envelope * PEAK;
+      out.writeInt16LE(Math.round(sample), 44 + (offset + i) * 2);
+    }
+  });
+  return out;
+}
+
+function oscillate(waveform: Waveform, phase: number): number {
+  switch (waveform) {
+    case 'square':
+      return phase < 0.5 ? 1 : -1;
+    case 'triangle':
+      return 1 - 4 * Math.abs(phase - 0.5);
+    case 'sawtooth':
+      return 2 * phase - 1;
+    case 'noise':
+      return Math.random() * 2 - 1;
+    default:
+      return Math.sin(2 * Math.PI * phase);
+  }
+}
+
+function writeWavHeader(out: Buffer, dataLength: number, rate: number): void {
+  out.write('RIFF', 0, 'ascii');
+  out.writeUInt32LE(36 + dataLength, 4);
+  out.write('WAVE', 8, 'ascii');
+  out.write('fmt ', 12, 'ascii');
+  out.writeUInt32LE(16, 16);
+  out.writeUInt16LE(1, 20); // integer PCM
+  out.writeUInt16LE(1, 22); // mono
+  out.writeUInt32LE(rate, 24);
+  out.writeUInt32LE(rate * 2, 28);
+  out.writeUInt16LE(2, 32);
+  out.writeUInt16LE(16, 34);
+  out.write('data', 36, 'ascii');
+  out.writeUInt32LE(dataLength, 40);
+}
+
+/** File name of the rendered preset: its name plus a hash of the parameters that affect the sound. */
+export function getSynthFileName(preset: SynthPreset): string {
+  const { name, label, emoji, ...params } = preset;
+  const hash = crypto.createHash('sha1').update(JSON.stringify(params)).digest('hex').slice(0, 12);
+  return `${name}-${hash}.wav`;
+}
+
+/** Path of the rendered preset in `cacheDir`, rendering it first if its parameters changed. */
+export function getSynthFile(cacheDir: string, preset: SynthPreset): string {
+  const filePath = path.join(cacheDir, getSynthFileName(preset));
+  if (!fs.existsSync(filePath)) {
+    fs.mkdirSync(cacheDir, { recursive: true });
+    fs.writeFileSync(filePath, renderSynth(preset));
+  }
+  return filePath;
+}
+
+/**
+ * Validates a preset coming from the library editor. Returns the cleaned-up preset,
+ * or an error message for the user.
+ */
+export function parseSynthPreset(raw: unknown): SynthPreset | string {
+  const fields: Record<string, unknown> = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const label = String(fields.label ?? '').trim();
+  if (!label) return 'Give the tone a name.';
+  const name = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'tone';
+
+  const waveform = WAVEFORMS.find((w) => w === fields.waveform);
+  if (!waveform) return `Unknown waveform "${String(fields.waveform)}".`;
+
+  const notes = String(fields.notes ?? '')
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(Number);
+  if (notes.length === 0 || notes.length > MAX_NOTES || notes.some((f) => !Number.isFinite(f) || f < 20 || f > 20000)) {
+    return `Enter 1–${MAX_NOTES} frequencies between 20 and 20000 Hz, separated by commas.`;
+  }
+
+  const ms = (key: string, fallback = 0) => {
+    const value = Number(fields[key]);
+    return Number.isFinite(value) && value >= 0 ? Math.round(value) : fallback;
+  };
+  const preset: SynthPreset = {
+    name,
+    label,
+    emoji: '\u{1F3B9}',
+    waveform,
+    notes,
+    noteMs: ms('noteMs', 150),
+    gapMs: ms('gapMs'),
+    attackMs: ms('attackMs'),
+    decayMs: ms('decayMs') || undefined,
+    releaseMs: ms('releaseMs'),
+  };
+  if (preset.noteMs < 10) return 'Notes must be at least 10 ms long.';
+  if (notes.length * (preset.noteMs + (preset.gapMs ?? 0)) > MAX_TOTAL_MS) {
+    return `The tone must be shorter than ${MAX_TOTAL_MS / 1000} seconds.`;
+  }
+  return preset;
+}
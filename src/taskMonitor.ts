@@ -0,0 +1,47 @@
+import * as vscode from 'vscode';
+import { CommandOutcome } from './terminalMonitor';
+
+export type TaskGroupKind = 'build' | 'test';
+
+export interface TaskResult {
+  outcome: CommandOutcome;
+  exitCode: number;
+  label: string;
+  group?: TaskGroupKind;
+}
+
+export type TaskResultCallback = (result: TaskResult) => void;
+
+// Tasks from tasks.json don't always run with shell integration, so TerminalMonitor
+// never sees them. onDidEndTaskProcess reports their exit codes directly.
+export class TaskMonitor implements vscode.Disposable {
+  private disposable: vscode.Disposable;
+
+  constructor(onResult: TaskResultCallback) {
+    this.disposable = vscode.tasks.onDidEndTaskProcess((event) => {
+      if (!vscode.workspace.getConfiguration('terminalSfx').get<boolean>('tasks.enabled', true)) return;
+
+      // exitCode undefined = the task was terminated or its process never started
+      const exitCode = event.exitCode;
+      if (exitCode === undefined) return;
+
+      const task = event.execution.task;
+      onResult({
+        outcome: exitCode === 0 ? 'success' : 'failure',
+        exitCode,
+        label: task.name,
+        group: getGroupKind(task.group),
+      });
+    });
+  }
+
+  dispose(): void {
+    this.disposable.dispose();
+  }
+}
+
+function getGroupKind(group: vscode.TaskGroup | undefined): TaskGroupKind | undefined {
+  if (group?.id === vscode.TaskGroup.Build.id) return 'build';
+  if (group?.id === vscode.TaskGroup.Test.id) return 'test';
+  return undefined;
+}
@@ -1,21 +1,181 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
+import { globToRegExp, stripAnsi } from './matchers';
 
-export type ErrorCallback = () => void;
+export type CommandOutcome = 'success' | 'failure';
+
+export interface CommandResult {
+  outcome: CommandOutcome;
+  exitCode: number;
+  commandLine: string;
+  terminal: vscode.Terminal;
+  cwd?: string;
+  durationMs?: number; // undefined when the start of the execution wasn't observed
+  outputMatch?: string; // error text found by output scanning in a command that exited 0
+}
+
+export type OutcomeCallback = (result: CommandResult) => void;
+
+/** One entry of `terminalSfx.terminalFilter.include`/`exclude`; every field given must match. */
+interface TerminalFilter {
+  name?: string;
+  shell?: string;
+  folder?: string;
+}
+
+// Characters carried over between output chunks so patterns split across chunks still match
+const SCAN_OVERLAP_CHARS = 256;
+// How long to wait for a scan to drain after the execution has ended
+const SCAN_SETTLE_MS = 1000;
 
 export class TerminalMonitor implements vscode.Disposable {
-  private disposable: vscode.Disposable;
-
-  constructor(onError: ErrorCallback) {
-    this.disposable = vscode.window.onDidEndTerminalShellExecution((event) => {
-      // exitCode undefined = could not be determined (shell integration issue)
-      // 0 = success, anything else = failure
-      if (event.exitCode !== undefined && event.exitCode !== 0) {
-        onError();
+  private disposables: vscode.Disposable[] = [];
+  private startTimes = new WeakMap<vscode.TerminalShellExecution, number>();
+  private scans = new WeakMap<vscode.TerminalShellExecution, Promise<string | undefined>>();
+  private mutedTerminals = new WeakSet<vscode.Terminal>();
+  private loggedExclusions = new WeakSet<vscode.Terminal>();
+
+  constructor(onOutcome: OutcomeCallback, private readonly log: (message: string) => void = () => {}) {
+    this.disposables.push(
+      vscode.window.onDidStartTerminalShellExecution((event) => {
+        this.startTimes.set(event.execution, Date.now());
+        // read() must be called as soon as the execution starts to see all of its output
+        if (getConfig().get<boolean>('outputScan.enabled', false) && !this.isFiltered(event.terminal, event.execution.cwd)) {
+          this.scans.set(event.execution, this.scanOutput(event.execution));
+        }
+      }),
+      vscode.window.onDidEndTerminalShellExecution(async (event) => {
+        const startTime = this.startTimes.get(event.execution);
+        const durationMs = startTime !== undefined ? Date.now() - startTime : undefined;
+        this.startTimes.delete(event.execution);
+
+        // exitCode undefined = could not be determined (shell integration issue)
+        // 0 = success, anything else = failure
+        const exitCode = event.exitCode;
+        const commandLine = event.execution.commandLine.value.trim();
+        if (exitCode === undefined) {
+          this.log(`Exit code of "${commandLine}" in terminal "${event.terminal.name}" could not be determined; shell integration may be only partially working`);
+          return;
+        }
+        const cwd = event.execution.cwd ?? event.shellIntegration.cwd;
+        if (this.isFiltered(event.terminal, cwd)) return;
+
+        const scan = this.scans.get(event.execution);
+        this.scans.delete(event.execution);
+        const outputMatch = exitCode === 0 && scan ? await settle(scan) : undefined;
+        if (outputMatch) {
+          this.log(`Output of "${commandLine}" contains "${outputMatch}" despite exit code 0`);
+        }
+
+        onOutcome({
+          outcome: exitCode === 0 && !outputMatch ? 'success' : 'failure',
+          exitCode,
+          commandLine,
+          terminal: event.terminal,
+          cwd: cwd?.fsPath,
+          durationMs,
+          outputMatch,
+        });
+      })
+    );
+  }
+
+  /** Toggles session-only muting for a terminal. Returns true if the terminal is now muted. */
+  toggleMute(terminal: vscode.Terminal): boolean {
+    if (this.mutedTerminals.has(terminal)) {
+      this.mutedTerminals.delete(terminal);
+      return false;
+    }
+    this.mutedTerminals.add(terminal);
+    return true;
+  }
+
+  /** True if the terminal is muted, or excluded by the include/exclude filters. */
+  private isFiltered(terminal: vscode.Terminal, cwd: vscode.Uri | undefined): boolean {
+    if (this.mutedTerminals.has(terminal)) return true;
+
+    const config = getConfig();
+    const include = config.get<TerminalFilter[]>('terminalFilter.include', []);
+    const exclude = config.get<TerminalFilter[]>('terminalFilter.exclude', []);
+    if (include.length === 0 && exclude.length === 0) return false;
+
+    // Profile terminals often have no shellPath; fall back to the detected shell type, not the
+    // default shell, and leave the shell unknown (never matching) if neither is available
+    const shellPath = ('shellPath' in terminal.creationOptions && terminal.creationOptions.shellPath) || terminal.state.shell;
+    const folder = cwd ? vscode.workspace.getWorkspaceFolder(cwd) : undefined;
+    const target = {
+      name: [terminal.name],
+      shell: shellPath ? [shellPath, path.basename(shellPath)] : [],
+      folder: [folder?.name, folder?.uri.fsPath, cwd?.fsPath].filter((v): v is string => !!v),
+    };
+
+    const matches = (filter: TerminalFilter) =>
+      (['name', 'shell', 'folder'] as const).every((key) => {
+        const pattern = filter[key];
+        if (pattern === undefined) return true;
+        const regex = globToRegExp(pattern, 'i');
+        return target[key].some((value) => regex.test(value));
+      });
+
+    if (include.length > 0 && !include.some(matches)) return true;
+    if (exclude.some(matches)) {
+      if (!this.loggedExclusions.has(terminal)) {
+        this.loggedExclusions.add(terminal);
+        this.log(`Terminal "${terminal.name}" is excluded by terminalSfx.terminalFilter.exclude`);
+      }
+      return true;
+    }
+    return false;
+  }
+
+  /** Reads up to `outputScan.maxBytes` of output and returns the first text matching an error pattern. */
+  private async scanOutput(execution: vscode.TerminalShellExecution): Promise<string | undefined> {
+    const config = getConfig();
+    const patterns: RegExp[] = [];
+    for (const source of config.get<string[]>('outputScan.patterns', [])) {
+      try {
+        patterns.push(new RegExp(source));
+      } catch (err: any) {
+        this.log(`Ignoring invalid output scan pattern "${source}": ${err.message}`);
       }
-    });
+    }
+    if (patterns.length === 0) return undefined;
+
+    let budget = config.get<number>('outputScan.maxBytes', 65536);
+    let tail = '';
+    try {
+      for await (const data of execution.read()) {
+        // The budget is in UTF-8 bytes; a character cut in half at the limit decodes as U+FFFD
+        const bytes = Buffer.byteLength(data);
+        const chunk = bytes > budget ? Buffer.from(data).subarray(0, budget).toString() : data;
+        budget -= Math.min(bytes, budget);
+
+        const text = tail + stripAnsi(chunk);
+        for (const pattern of patterns) {
+          const match = pattern.exec(text);
+          if (match) return match[0];
+        }
+        if (budget <= 0) return undefined;
+        tail = text.slice(-SCAN_OVERLAP_CHARS);
+      }
+    } catch (err: any) {
+      this.log(`Output scan failed: ${err.message}`);
+    }
+    return undefined;
   }
 
   dispose(): void {
-    this.disposable.dispose();
+    this.disposables.forEach((d) => d.dispose());
   }
 }
+
+function getConfig(): vscode.WorkspaceConfiguration {
+  return vscode.workspace.getConfiguration('terminalSfx');
+}
+
+function settle(scan: Promise<string | undefined>): Promise<string | undefined> {
+  return Promise.race([
+    scan,
+    new Promise<undefined>((resolve) => setTimeout(() => resolve(undefined), SCAN_SETTLE_MS)),
+  ]);
+}
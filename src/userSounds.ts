@@ -0,0 +1,164 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { JsonFile } from './jsonFile';
+
+export interface UserSound {
+  id: string; // selected as `user:<id>`
+  label: string;
+  emoji: string;
+  file: string; // file name inside the collection folder
+  source: string; // original file path or URL; empty for files found without an index entry
+  addedAt: number;
+}
+
+/** Prefix that marks a sound name as one of the user's imported sounds. */
+export const USER_PREFIX = 'user:';
+
+const AUDIO_EXTENSIONS = ['.mp3', '.wav', '.ogg'];
+const DEFAULT_EMOJI = '\u{1F3B5}';
+
+/** True for the file types the collection accepts (MP3, WAV, OGG), by extension. */
+export function isAudioFile(fileName: string): boolean {
+  return AUDIO_EXTENSIONS.includes(path.extname(fileName).toLowerCase());
+}
+
+export function isUserSound(name: string): boolean {
+  return name.startsWith(USER_PREFIX);
+}
+
+export function userSoundName(id: string): string {
+  return USER_PREFIX + id;
+}
+
+/**
+ * Sounds the user imported from disk or downloaded. The files are copied into
+ * globalStorageUri/sounds and described by user-sounds.json next to it.
+ */
+export class UserSoundCollection implements vscode.Disposable {
+  readonly dir: string;
+  private readonly index: JsonFile;
+  private sounds: UserSound[] = [];
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor(storageDir: string, private readonly log: (message: string) => void) {
+    this.dir = path.join(storageDir, 'sounds');
+    this.index = new JsonFile(path.join(storageDir, 'user-sounds.json'), (message) => log(`Failed to save My Sounds: ${message}`));
+  }
+
+  /**
+   * Reads the index, dropping entries whose file is gone. Audio files in the folder without
+   * an entry (downloads from before the collection existed) are added under their file name.
+   */
+  async load(): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const data = await this.index.read();
+    const sounds: UserSound[] = Array.isArray(data) ? data : [];
+
+    const files = await fs.promises.readdir(this.dir);
+    this.sounds = sounds.filter((sound) => files.includes(sound.file));
+    let changed = this.sounds.length !== sounds.length;
+
+    for (const file of files) {
+      if (!isAudioFile(file)) continue;
+      if (this.sounds.some((sound) => sound.file === file)) continue;
+      const name = path.basename(file, path.extname(file));
+      const addedAt = (await fs.promises.stat(path.join(this.dir, file))).mtimeMs;
+      this.sounds.push({ id: this.uniqueId(name), label: toLabel(name), emoji: DEFAULT_EMOJI, file, source: '', addedAt });
+      changed = true;
+    }
+
+    if (changed) await this.save();
+  }
+
+  getSounds(): readonly UserSound[] {
+    return this.sounds;
+  }
+
+  /** Finds a sound by its `user:<id>` name. */
+  find(soundName: string): UserSound | undefined {
+    const id = soundName.slice(USER_PREFIX.length);
+    return this.sounds.find((sound) => sound.id === id);
+  }
+
+  getFilePath(sound: UserSound): string {
+    return path.join(this.dir, sound.file);
+  }
+
+  /** Maps a file in the collection folder back to its `user:<id>` name. */
+  getSoundName(filePath: string): string | undefined {
+    if (path.dirname(filePath) !== this.dir) return undefined;
+    const sound = this.sounds.find((s) => s.file === path.basename(filePath));
+    return sound && userSoundName(sound.id);
+  }
+
+  /**
+   * Copies `filePath` into the collection, or moves it there with `move` (for downloads that
+   * were written to a temporary file). `name` overrides the file name the label and extension
+   * come from, e.g. the file name in a download URL. Anything but MP3/WAV/OGG is rejected,
+   * and a file that was to be moved is deleted.
+   */
+  async add(filePath: string, source: string, options: { name?: string; move?: boolean } = {}): Promise<UserSound> {
+    if (!isAudioFile(options.name ?? filePath)) {
+      if (options.move) await fs.promises.rm(filePath, { force: true });
+      throw new Error(`Not an MP3, WAV or OGG file: ${path.basename(options.name ?? filePath)}`);
+    }
+    const name = options.name ?? path.basename(filePath, path.extname(filePath));
+    const id = this.uniqueId(name);
+    const file = id + path.extname(options.name ?? filePath).toLowerCase();
+
+    const dest = path.join(this.dir, file);
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    if (options.move) {
+      await fs.promises.rename(filePath, dest);
+    } else {
+      await fs.promises.copyFile(filePath, dest);
+    }
+
+    const sound: UserSound = { id, label: toLabel(name), emoji: DEFAULT_EMOJI, file, source, addedAt: Date.now() };
+    this.sounds.push(sound);
+    this.log(`Added "${sound.label}" to My Sounds from ${source}`);
+    await this.save();
+    return sound;
+  }
+
+  async update(id: string, changes: Partial<Pick<UserSound, 'label' | 'emoji'>>): Promise<void> {
+    const sound = this.sounds.find((s) => s.id === id);
+    if (!sound) return;
+    Object.assign(sound, changes);
+    await this.save();
+  }
+
+  async remove(id: string): Promise<void> {
+    const sound = this.sounds.find((s) => s.id === id);
+    if (!sound) return;
+    this.sounds = this.sounds.filter((s) => s !== sound);
+    await fs.promises.rm(this.getFilePath(sound), { force: true });
+    this.log(`Deleted "${sound.label}" from My Sounds`);
+    await this.save();
+  }
+
+  private uniqueId(name: string): string {
+    const base = path.basename(name, path.extname(name)).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'sound';
+    let id = base;
+    for (let n = 2; this.sounds.some((s) => s.id === id); n++) id = `${base}-${n}`;
+    return id;
+  }
+
+  private save(): Promise<void> {
+    this.changeEmitter.fire();
+    return this.index.write(this.sounds, 2);
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
+
+function toLabel(name: string): string {
+  return path.basename(name, path.extname(name))
+    .replace(/[-_]+/g, ' ')
+    .replace(/\b\w/g, (c) => c.toUpperCase())
+    .trim() || 'Sound';
+}